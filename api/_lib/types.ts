@@ -16,6 +16,7 @@ export interface SharedPalette {
   hasFabrics: boolean;
   fabricDataUrls?: string[];  // Base64 fabric images (only for fabric palettes)
   swatchMeta?: SwatchMeta[];  // Metadata per swatch (fabric names, shop links, etc.)
+  weights?: number[];     // How often each colour is drawn, relative to the others
   tags?: string[];        // Searchable tags
   createdAt: number;
   likes: number;
@@ -29,6 +30,7 @@ export interface CreatePaletteRequest {
   colors: string[];
   fabricDataUrls?: string[];
   swatchMeta?: SwatchMeta[];
+  weights?: number[];
   tags?: string[];
 }
 
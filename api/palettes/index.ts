@@ -14,9 +14,12 @@ function generateId(): string {
 }
 
 // Create a hash from colors for deduplication
-// Normalizes to uppercase and sorts for consistent matching
-function hashColors(colors: string[]): string {
-  const normalized = colors.map(c => c.toUpperCase().trim()).sort();
+// Normalizes to uppercase and sorts for consistent matching; weighted
+// palettes keep each weight with its colour
+function hashColors(colors: string[], weights?: number[]): string {
+  const normalized = colors
+    .map((c, i) => c.toUpperCase().trim() + (weights ? `*${weights[i]}` : ""))
+    .sort();
   return normalized.join("|");
 }
 
@@ -100,6 +103,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: "Too many colors (max 12)" });
       }
 
+      if (
+        body.weights &&
+        (!Array.isArray(body.weights) ||
+          body.weights.length !== body.colors.length ||
+          !body.weights.every((w) => Number.isInteger(w) && w >= 0 && w <= 20))
+      ) {
+        return res.status(400).json({ error: "Weights must be whole numbers, one per color" });
+      }
+
       // Check fabric data size (limit to ~500KB total to avoid Redis limits)
       if (body.fabricDataUrls) {
         const totalSize = body.fabricDataUrls.reduce((sum, url) => sum + url.length, 0);
@@ -109,7 +121,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       // Check for duplicate palette (same colors, ignoring order)
-      const colorHash = hashColors(body.colors);
+      const colorHash = hashColors(body.colors, body.weights);
       const existingPaletteId = await redis.get<string>(KEYS.paletteByHash(colorHash));
       
       if (existingPaletteId) {
@@ -138,6 +150,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         hasFabrics: !!body.fabricDataUrls && body.fabricDataUrls.length > 0,
         fabricDataUrls: body.fabricDataUrls,
         swatchMeta: body.swatchMeta,
+        weights: body.weights,
         tags: body.tags?.map(t => t.trim().toLowerCase()).filter(Boolean),
         createdAt: now,
         likes: 0,
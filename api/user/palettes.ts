@@ -9,6 +9,7 @@ export interface SavedPalette {
   name: string;
   colors: string[];
   swatches?: Array<string | { type: "fabric"; dataUrl: string; sourceUrl?: string }>;
+  weights?: number[];     // how often each colour is drawn, relative to the others
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -24,6 +24,7 @@ export interface SharedPalette {
   hasFabrics: boolean;
   fabricDataUrls?: string[];
   swatchMeta?: SwatchMeta[];
+  weights?: number[];
   tags?: string[];
   createdAt: number;
   likes: number;
@@ -99,6 +100,7 @@ export async function sharePalette(
   options?: {
     description?: string;
     swatchMeta?: SwatchMeta[];
+    weights?: number[];
     tags?: string[];
   }
 ): Promise<SharePaletteResult> {
@@ -111,6 +113,7 @@ export async function sharePalette(
       fabricDataUrls,
       description: options?.description,
       swatchMeta: options?.swatchMeta,
+      weights: options?.weights,
       tags: options?.tags,
     }),
   });
@@ -281,6 +284,7 @@ export interface SavedPalette {
   name: string;
   colors: string[];
   swatches?: Array<string | { type: "fabric"; dataUrl: string; sourceUrl?: string }>;
+  weights?: number[];
 }
 
 export async function getUserPalettes(): Promise<SavedPalette[]> {
@@ -0,0 +1,249 @@
+// Traditional named blocks, described as small grids of the existing shapes.
+// Colours are given as roles ("background", "star", …) and mapped onto the
+// active palette when a block is placed.
+
+import { type QuiltBlock, ShapeType, isSpanShape } from "./types";
+import { SeededRandom } from "./random";
+
+export interface BlockCell {
+  shape: ShapeType;
+  roles: string[];   // one role per colour slot of the shape
+  rotation: number;
+  subgrid?: BlockCell[][];
+}
+
+export interface TraditionalBlock {
+  id: string;
+  name: string;
+  roles: string[];   // every role used, background first
+  // null marks the second cell of a two-cell unit that starts to its left/above
+  cells: (BlockCell | null)[][];
+}
+
+// --- Cell helpers ---
+
+function sq(role: string): BlockCell {
+  return { shape: ShapeType.Square, roles: [role], rotation: 0 };
+}
+
+function hst(bottomLeft: string, topRight: string, rotation: number): BlockCell {
+  return { shape: ShapeType.HST, roles: [bottomLeft, topRight], rotation };
+}
+
+function qst(top: string, right: string, bottom: string, left: string, rotation: number): BlockCell {
+  return { shape: ShapeType.QST, roles: [top, right, bottom, left], rotation };
+}
+
+function geese(goose: string, sky: string, rotation: number): BlockCell {
+  return { shape: ShapeType.FlyingGeese, roles: [goose, sky, sky], rotation };
+}
+
+function rect(role: string, rotation: number): BlockCell {
+  return { shape: ShapeType.Rectangle, roles: [role], rotation };
+}
+
+/** Two rectangles in one cell: outer half on top at rotation 0 */
+function bar(outer: string, inner: string, rotation: number): BlockCell {
+  return {
+    shape: ShapeType.FourPatch,
+    roles: [],
+    rotation,
+    subgrid: [
+      [sq(outer), sq(outer)],
+      [sq(inner), sq(inner)],
+    ],
+  };
+}
+
+// --- Catalogue ---
+
+const BG = "background";
+
+export const BLOCK_LIBRARY: TraditionalBlock[] = [
+  {
+    id: "ohio-star",
+    name: "Ohio Star",
+    roles: [BG, "star", "centre"],
+    cells: [
+      [sq(BG), qst(BG, "star", BG, "star", 0), sq(BG)],
+      [qst(BG, "star", BG, "star", 270), sq("centre"), qst(BG, "star", BG, "star", 90)],
+      [sq(BG), qst(BG, "star", BG, "star", 180), sq(BG)],
+    ],
+  },
+  {
+    id: "sawtooth-star",
+    name: "Sawtooth Star",
+    roles: [BG, "star", "centre"],
+    cells: [
+      [sq(BG), geese(BG, "star", 180), null, sq(BG)],
+      [geese(BG, "star", 90), sq("centre"), sq("centre"), geese(BG, "star", 270)],
+      [null, sq("centre"), sq("centre"), null],
+      [sq(BG), geese(BG, "star", 0), null, sq(BG)],
+    ],
+  },
+  {
+    id: "friendship-star",
+    name: "Friendship Star",
+    roles: [BG, "star"],
+    cells: [
+      [sq(BG), hst("star", BG, 0), sq(BG)],
+      [hst("star", BG, 270), sq("star"), hst("star", BG, 90)],
+      [sq(BG), hst("star", BG, 180), sq(BG)],
+    ],
+  },
+  {
+    id: "churn-dash",
+    name: "Churn Dash",
+    roles: [BG, "dash"],
+    cells: [
+      [hst(BG, "dash", 90), bar(BG, "dash", 0), hst(BG, "dash", 180)],
+      [bar(BG, "dash", 270), sq(BG), bar(BG, "dash", 90)],
+      [hst(BG, "dash", 0), bar(BG, "dash", 180), hst(BG, "dash", 270)],
+    ],
+  },
+  {
+    id: "bear-paw",
+    name: "Bear's Paw",
+    roles: [BG, "paw", "centre"],
+    cells: [
+      [sq("paw"), hst("paw", BG, 0), sq(BG), hst(BG, "paw", 90), sq("paw")],
+      [hst(BG, "paw", 0), sq(BG), sq(BG), sq(BG), hst("paw", BG, 90)],
+      [sq(BG), sq(BG), sq("centre"), sq(BG), sq(BG)],
+      [hst(BG, "paw", 90), sq(BG), sq(BG), sq(BG), hst(BG, "paw", 180)],
+      [sq("paw"), hst("paw", BG, 90), sq(BG), hst("paw", BG, 180), sq("paw")],
+    ],
+  },
+  {
+    id: "pinwheel",
+    name: "Pinwheel",
+    roles: [BG, "blade"],
+    cells: [
+      [hst("blade", BG, 0), hst("blade", BG, 90)],
+      [hst("blade", BG, 270), hst("blade", BG, 180)],
+    ],
+  },
+  {
+    id: "log-cabin",
+    name: "Log Cabin",
+    roles: [BG, "light", "dark", "centre"],
+    cells: [
+      [rect("light", 0), null, rect("dark", 90)],
+      [rect("light", 90), sq("centre"), null],
+      [null, rect("dark", 0), null],
+    ],
+  },
+];
+
+export function getBlockById(id: string): TraditionalBlock | undefined {
+  return BLOCK_LIBRARY.find((b) => b.id === id);
+}
+
+/** Side length of the repeat unit needed to hold every selected block */
+export function libraryUnitSize(blockIds: string[]): number {
+  let size = 0;
+  for (const id of blockIds) {
+    const block = getBlockById(id);
+    if (block) size = Math.max(size, block.cells.length);
+  }
+  return size;
+}
+
+/** Map roles onto palette colours. Roles are assigned in order to a shuffled
+ *  copy of the palette, so the first `paletteColors.length` roles never share
+ *  a colour. With weights, heavier colours tend to come earlier in the
+ *  shuffle and colours weighted 0 are left out. */
+export function assignRoleColors(
+  roles: string[],
+  paletteColors: string[],
+  rng: SeededRandom,
+  weights: number[] | null = null
+): Record<string, string> {
+  const shuffled = weights ? weightedShuffle(paletteColors, weights, rng) : [...paletteColors];
+  if (!weights) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = rng.int(0, i);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+  }
+  const map: Record<string, string> = {};
+  roles.forEach((role, i) => {
+    map[role] = shuffled[i % shuffled.length];
+  });
+  return map;
+}
+
+/** The colours weighted above 0 (all of them when none is), each drawn in
+ *  turn as likely as its weight among those left */
+function weightedShuffle(paletteColors: string[], weights: number[], rng: SeededRandom): string[] {
+  const all = paletteColors.map((color, i) => ({ color, weight: weights[i] ?? 0 }));
+  const weighted = all.filter((c) => c.weight > 0);
+  const left = weighted.length > 0 ? weighted : all.map((c) => ({ ...c, weight: 1 }));
+  const order: string[] = [];
+  while (left.length > 0) {
+    const [{ color }] = left.splice(rng.weighted(left.map((c) => c.weight)), 1);
+    order.push(color);
+  }
+  return order;
+}
+
+/** Roles of all given blocks in first-seen order, background first */
+export function collectRoles(blocks: TraditionalBlock[]): string[] {
+  const roles: string[] = [BG];
+  for (const block of blocks) {
+    for (const role of block.roles) {
+      if (!roles.includes(role)) roles.push(role);
+    }
+  }
+  return roles;
+}
+
+function cellToBlock(cell: BlockCell, roleColors: Record<string, string>): QuiltBlock {
+  const block: QuiltBlock = {
+    shape: cell.shape,
+    colors: cell.roles.map((role) => roleColors[role]),
+    rotation: cell.rotation,
+  };
+  if (cell.subgrid) {
+    block.subgrid = cell.subgrid.map((row) => row.map((c) => cellToBlock(c, roleColors)));
+  }
+  return block;
+}
+
+/** Build the cells of a block with concrete colours. Two-cell units get their
+ *  span vectors and a partner copy in the cell they cover. */
+export function instantiateBlock(def: TraditionalBlock, roleColors: Record<string, string>): QuiltBlock[][] {
+  const grid = def.cells.map((row) => row.map((cell) => (cell ? cellToBlock(cell, roleColors) : null)));
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      const block = grid[row][col];
+      if (!block || !isSpanShape(block.shape) || block.span) continue;
+      const horizontal = block.rotation % 180 === 0;
+      const dRow = horizontal ? 0 : 1;
+      const dCol = horizontal ? 1 : 0;
+      block.span = { dRow, dCol };
+      grid[row + dRow][col + dCol] = { ...block, colors: [...block.colors], span: { dRow: -dRow, dCol: -dCol } };
+    }
+  }
+
+  return grid as QuiltBlock[][];
+}
+
+/** Place a block centred in a size×size unit, padding with its background */
+export function instantiateBlockInUnit(
+  def: TraditionalBlock,
+  roleColors: Record<string, string>,
+  size: number
+): QuiltBlock[][] {
+  const cells = instantiateBlock(def, roleColors);
+  const n = cells.length;
+  const offset = Math.floor((size - n) / 2);
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      const r = row - offset;
+      const c = col - offset;
+      if (r >= 0 && r < n && c >= 0 && c < n) return cells[r][c];
+      return { shape: ShapeType.Square, colors: [roleColors[BG]], rotation: 0 };
+    })
+  );
+}
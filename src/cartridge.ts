@@ -4,6 +4,7 @@
 import type { AppState, Palette, FabricSwatch } from "./types";
 import { isFabricSwatch } from "./types";
 import type { SpriteInfo } from "./spritesheet";
+import { defaultState } from "./state";
 
 const CARTRIDGE_KEY = "QuiltDesigner";
 const CARTRIDGE_VERSION = 2; // Bumped for sprite sheet support
@@ -35,6 +36,10 @@ function stripFabricData(palettes: Palette[]): Palette[] {
 function extractSaveableState(state: AppState, stripFabrics = false): Partial<AppState> {
   return {
     seed: state.seed,
+    colorSeed: state.colorSeed,
+    bredTile: state.bredTile,
+    locks: state.locks,
+    recolor: state.recolor,
     symmetry: state.symmetry,
     symmetryMode: state.symmetryMode,
     enabledShapes: state.enabledShapes,
@@ -45,12 +50,28 @@ function extractSaveableState(state: AppState, stripFabrics = false): Partial<Ap
       : state.customPalettes,
     paletteColorCount: state.paletteColorCount,
     colorCountMode: state.colorCountMode,
+    minColorPatches: state.minColorPatches,
+    constraints: state.constraints,
+    valueMap: state.valueMap,
+    gradient: state.gradient,
+    scrappy: state.scrappy,
+    generator: state.generator,
+    wfc: state.wfc,
     repeatWidth: state.repeatWidth,
     repeatHeight: state.repeatHeight,
+    repeatOffset: state.repeatOffset,
     gridWidth: state.gridWidth,
     gridHeight: state.gridHeight,
     outerBorder: state.outerBorder,
     sashingBorder: state.sashingBorder,
+    blockLibrary: state.blockLibrary,
+    medallion: state.medallion,
+    rowQuilt: state.rowQuilt,
+    alternateBlock: state.alternateBlock,
+    onPoint: state.onPoint,
+    settingColor: state.settingColor,
+    tessellation: state.tessellation,
+    hex: state.hex,
   };
 }
 
@@ -334,6 +355,15 @@ async function extractSpritesFromPng(
   return state;
 }
 
+// Designs saved before a setting existed were made without it: fill every
+// saved field the file lacks with its default, so loading one doesn't pick
+// up whatever is on screen. Colours drawn with the shapes (colorSeed null)
+// are how such a design was coloured.
+function withSavedDefaults(state: Partial<AppState>): Partial<AppState> {
+  const defaults = extractSaveableState({ ...defaultState(), colorSeed: null });
+  return { ...defaults, ...state };
+}
+
 export async function loadCartridgeFromFile(file: File): Promise<Partial<AppState> | null> {
   if (file.type === "image/png" || file.name.endsWith(".png")) {
     const arrayBuffer = await file.arrayBuffer();
@@ -343,16 +373,16 @@ export async function loadCartridgeFromFile(file: File): Promise<Partial<AppStat
     
     // If we have sprites, extract fabric data from the image
     if (parsed.sprites && parsed.sprites.length > 0) {
-      return extractSpritesFromPng(file, parsed.sprites, parsed.state);
+      return extractSpritesFromPng(file, parsed.sprites, withSavedDefaults(parsed.state));
     }
     
-    return parsed.state;
+    return withSavedDefaults(parsed.state);
   }
   
   if (file.type === "image/svg+xml" || file.name.endsWith(".svg")) {
     const text = await file.text();
     const parsed = extractFromSvg(text);
-    return parsed?.state || null;
+    return parsed ? withSavedDefaults(parsed.state) : null;
   }
   
   return null;
@@ -0,0 +1,226 @@
+// Colour constraints checked while a tile is generated. Each cell is reduced
+// to the colours along its four sides and the pairs of patches that meet
+// inside it; two patches touching across a seam form a pair, and a pair can
+// break the neighbour and contrast rules. Seams are only checked within the
+// tile, since sashing or an offset repeat may separate the tile edges.
+// Patches hold palette roles or value classes, so their lightness is looked
+// up through the colour each stands for.
+
+import { type ColorConstraints, type QuiltBlock, ShapeType, isCoveredCell } from "./types";
+
+/** The constraints, with the colour each of the tile's roles stands for */
+export interface ColorRules extends ColorConstraints {
+  hexOf: (color: string) => string;
+}
+
+// Colour index along each side (top, right, bottom, left) at rotation 0, and
+// the pairs of patches that meet inside the block
+const CELL_EDGES: Partial<Record<ShapeType, { sides: number[]; inner: [number, number][] }>> = {
+  [ShapeType.Square]: { sides: [0, 0, 0, 0], inner: [] },
+  [ShapeType.HST]: { sides: [1, 1, 0, 0], inner: [[0, 1]] },
+  [ShapeType.QST]: { sides: [0, 1, 2, 3], inner: [[0, 1], [1, 2], [2, 3], [3, 0]] },
+  [ShapeType.HSTSplit]: { sides: [1, 2, 0, 0], inner: [[0, 1], [0, 2], [1, 2]] },
+  // The pie takes most of the left and bottom sides
+  [ShapeType.DrunkardsPath]: { sides: [1, 1, 0, 0], inner: [[0, 1]] },
+  // The corners only clip the ends of each side
+  [ShapeType.Snowball]: { sides: [0, 0, 0, 0], inner: [[0, 1]] },
+};
+
+// Two-cell units, drawn unrotated as a left and a right half. -1 marks the
+// side where the halves join.
+const SPAN_EDGES: Partial<Record<ShapeType, { left: number[]; right: number[]; inner: [number, number][] }>> = {
+  [ShapeType.Rectangle]: { left: [0, -1, 0, 0], right: [0, 0, 0, -1], inner: [] },
+  [ShapeType.FlyingGeese]: { left: [1, -1, 0, 1], right: [2, 2, 0, -1], inner: [[0, 1], [0, 2]] },
+  [ShapeType.HRT]: { left: [1, -1, 0, 0], right: [1, 1, 0, -1], inner: [[0, 1]] },
+  [ShapeType.HRTMirror]: { left: [1, -1, 0, 1], right: [1, 0, 0, -1], inner: [[0, 1]] },
+};
+
+interface CellEdges {
+  // Colours along each side, clockwise (top: left to right, right: top to
+  // bottom, …); null where the cell joins the other half of its unit
+  sides: (string[] | null)[];
+  inner: [string, string][];
+}
+
+function rotateSides<T>(sides: T[], rotation: number): T[] {
+  const turns = rotation / 90;
+  const rotated = [...sides];
+  sides.forEach((side, s) => (rotated[(s + turns) % 4] = side));
+  return rotated;
+}
+
+// Blocks are replaced, not changed, once a tile is built
+const edgeCache = new WeakMap<QuiltBlock, CellEdges>();
+
+function cellEdges(block: QuiltBlock): CellEdges {
+  let edges = edgeCache.get(block);
+  if (!edges) {
+    edges = block.subgrid ? compoundEdges(block) : simpleEdges(block);
+    edgeCache.set(block, edges);
+  }
+  return edges;
+}
+
+function simpleEdges(block: QuiltBlock): CellEdges {
+  const color = (idx: number) => block.colors[idx] ?? block.colors[0];
+  const unit = SPAN_EDGES[block.shape];
+  if (unit && block.span) {
+    // The anchor is the left half until the unit is turned past 90°
+    const left = (block.rotation < 180) !== isCoveredCell(block);
+    const sides = (left ? unit.left : unit.right).map((idx) => (idx < 0 ? null : [color(idx)]));
+    // Seams inside the unit are counted once, at the anchor
+    const inner = isCoveredCell(block) ? [] : unit.inner.map(([a, b]): [string, string] => [color(a), color(b)]);
+    return { sides: rotateSides(sides, block.rotation), inner };
+  }
+
+  const edges = CELL_EDGES[block.shape] ?? CELL_EDGES[ShapeType.Square]!;
+  return {
+    sides: rotateSides(edges.sides.map((idx) => [color(idx)]), block.rotation),
+    inner: edges.inner.map(([a, b]) => [color(a), color(b)]),
+  };
+}
+
+// A compound cell's sides are its children's outer sides, clockwise
+function compoundEdges(block: QuiltBlock): CellEdges {
+  const sub = block.subgrid!;
+  const n = sub.length;
+  const edges = sub.map((row) => row.map(cellEdges));
+  const along = (cells: CellEdges[], side: number) => cells.flatMap((e) => e.sides[side] ?? []);
+  const indices = [...Array(n).keys()];
+
+  const sides = [
+    along(indices.map((i) => edges[0][i]), 0),
+    along(indices.map((i) => edges[i][n - 1]), 1),
+    along(indices.map((i) => edges[n - 1][n - 1 - i]), 2),
+    along(indices.map((i) => edges[n - 1 - i][0]), 3),
+  ];
+  const inner = [...edges.flat().flatMap((e) => e.inner)];
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      if (c + 1 < n) inner.push(...seamPairs(edges[r][c], edges[r][c + 1], "right"));
+      if (r + 1 < n) inner.push(...seamPairs(edges[r][c], edges[r + 1][c], "below"));
+    }
+  }
+  return { sides: rotateSides(sides, block.rotation), inner };
+}
+
+/** Colour along each side (top, right, bottom, left) of a single-cell block */
+export function sideColors(block: QuiltBlock): string[] {
+  return cellEdges(block).sides.map((side) => side?.[0] ?? block.colors[0]);
+}
+
+/** Pairs of colours touching along two sides of the same length, split into
+ *  equal segments (a side of 3 segments meets a side of 2 in 4 places) */
+function touching(a: string[], b: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (i * b.length < (j + 1) * a.length && j * a.length < (i + 1) * b.length) pairs.push([a[i], b[j]]);
+    }
+  }
+  return pairs;
+}
+
+// Sides run clockwise, so the sides either side of a seam run opposite ways
+function seamPairs(a: CellEdges, b: CellEdges, where: "right" | "below"): [string, string][] {
+  const [sa, sb] = where === "right" ? [a.sides[1], b.sides[3]] : [a.sides[2], b.sides[0]];
+  if (!sa || !sb) return [];
+  return touching(sa, [...sb].reverse());
+}
+
+const lightnessCache = new Map<string, number>();
+
+/** CIELAB lightness (L*, 0-100) of a hex colour */
+export function lightness(hex: string): number {
+  const cached = lightnessCache.get(hex);
+  if (cached !== undefined) return cached;
+  const value = parseInt(hex.replace("#", "").padEnd(6, "0").slice(0, 6), 16) || 0;
+  const linear = [value >> 16, (value >> 8) & 0xff, value & 0xff].map((v) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+  const l = y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (24389 / 27) * y;
+  lightnessCache.set(hex, l);
+  return l;
+}
+
+export function hasActiveConstraints(constraints: ColorConstraints | undefined): constraints is ColorConstraints {
+  return !!constraints && (constraints.distinctNeighbours || constraints.minContrast > 0 || constraints.maxColorShare < 100);
+}
+
+function breaksRule(a: string, b: string, rules: ColorRules): boolean {
+  if (rules.distinctNeighbours && a.toUpperCase() === b.toUpperCase()) return true;
+  if (rules.minContrast <= 0) return false;
+  const contrast = Math.abs(lightness(rules.hexOf(a)) - lightness(rules.hexOf(b)));
+  return contrast < rules.minContrast;
+}
+
+/** Pairs of patches in or around a cell that break the neighbour or
+ *  contrast rules */
+export function seamViolations(tile: QuiltBlock[][], row: number, col: number, rules: ColorRules): number {
+  if (!rules.distinctNeighbours && rules.minContrast <= 0) return 0;
+  const edges = cellEdges(tile[row][col]);
+  const pairs = [...edges.inner];
+  const right = tile[row][col + 1];
+  const below = tile[row + 1]?.[col];
+  const left = tile[row][col - 1];
+  const above = tile[row - 1]?.[col];
+  if (right) pairs.push(...seamPairs(edges, cellEdges(right), "right"));
+  if (below) pairs.push(...seamPairs(edges, cellEdges(below), "below"));
+  if (left) pairs.push(...seamPairs(cellEdges(left), edges, "right"));
+  if (above) pairs.push(...seamPairs(cellEdges(above), edges, "below"));
+  return pairs.filter(([a, b]) => breaksRule(a, b, rules)).length;
+}
+
+/** Every patch colour in a block, including those inside a compound sub-grid */
+export function patchColors(block: QuiltBlock): string[] {
+  if (block.subgrid) return block.subgrid.flatMap((row) => row.flatMap(patchColors));
+  return block.colors;
+}
+
+/** Patches of each colour in the tile, for the share rule */
+export class ColorTally {
+  private counts = new Map<string, number>();
+  private total = 0;
+  private maxShare: number;
+
+  constructor(tile: QuiltBlock[][], maxShare: number) {
+    this.maxShare = maxShare;
+    for (const row of tile) {
+      for (const block of row) this.add(block, 1);
+    }
+  }
+
+  /** Count a cell's patches in (1) or out (-1); units count at their anchor */
+  add(block: QuiltBlock, sign: 1 | -1): void {
+    if (isCoveredCell(block)) return;
+    for (const color of patchColors(block)) {
+      const key = color.toUpperCase();
+      this.counts.set(key, (this.counts.get(key) ?? 0) + sign);
+      this.total += sign;
+    }
+  }
+
+  private get limit(): number {
+    return Math.max(1, Math.floor((this.total * this.maxShare) / 100));
+  }
+
+  /** Patches over the limit, summed over the colours */
+  excess(): number {
+    if (this.maxShare >= 100) return 0;
+    let excess = 0;
+    for (const count of this.counts.values()) excess += Math.max(0, count - this.limit);
+    return excess;
+  }
+
+  /** Colours in more than the allowed share of the patches */
+  over(): Set<string> {
+    const over = new Set<string>();
+    if (this.maxShare >= 100) return over;
+    for (const [color, count] of this.counts) {
+      if (count > this.limit) over.add(color);
+    }
+    return over;
+  }
+}
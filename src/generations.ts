@@ -21,22 +21,32 @@ const NOUNS = [
   "Dream", "Wish", "Song", "Dance", "Story", "Memory", "Treasure",
 ];
 
+import type { QuiltBlock } from "./types";
+
 export interface Generation {
   seed: number;
+  colorSeed?: number | null; // Missing or null: colours drawn with the shapes from seed
   name: string;
   createdAt: number;
+  tile?: QuiltBlock[][];  // Bred children: the repeat tile itself, since no seed makes it
+  parents?: string[];     // Bred children: the parents' names
 }
 
 const STORAGE_KEY = "quilt.generations";
 const MAX_GENERATIONS = 50;
 
-export function generateName(seed: number): string {
-  // Use seed to deterministically pick words
-  const adjIdx = seed % ADJECTIVES.length;
+export function generateName(seed: number, colorSeed: number | null = null): string {
+  // Use seed to deterministically pick words; with a colour seed the
+  // adjective follows the colours and the noun the shapes
+  const adjIdx = (colorSeed ?? seed) % ADJECTIVES.length;
   const nounIdx = Math.floor(seed / ADJECTIVES.length) % NOUNS.length;
   return `${ADJECTIVES[adjIdx]} ${NOUNS[nounIdx]}`;
 }
 
+export function isGeneration(gen: Generation, seed: number, colorSeed: number | null): boolean {
+  return gen.seed === seed && (gen.colorSeed ?? null) === colorSeed;
+}
+
 export function loadGenerations(): Generation[] {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
@@ -46,25 +56,30 @@ export function loadGenerations(): Generation[] {
     return parsed.filter(
       (g): g is Generation =>
         typeof g.seed === "number" &&
+        (g.colorSeed === undefined || g.colorSeed === null || typeof g.colorSeed === "number") &&
         typeof g.name === "string" &&
-        typeof g.createdAt === "number"
+        typeof g.createdAt === "number" &&
+        (g.tile === undefined || Array.isArray(g.tile))
     );
   } catch {
     return [];
   }
 }
 
-export function saveGeneration(seed: number): Generation {
+/** A pair of seeds, with the bred tile drawn at them if the design has one */
+export function saveGeneration(seed: number, colorSeed: number | null, tile: QuiltBlock[][] | null = null): Generation {
   const generations = loadGenerations();
   
-  // Check if this seed already exists
-  const existing = generations.find((g) => g.seed === seed);
+  // Check if this pair of seeds already exists
+  const existing = generations.find((g) => isGeneration(g, seed, colorSeed));
   if (existing) return existing;
   
   const gen: Generation = {
     seed,
-    name: generateName(seed),
+    colorSeed,
+    name: generateName(seed, colorSeed),
     createdAt: Date.now(),
+    ...(tile ? { tile } : {}),
   };
   
   generations.unshift(gen);
@@ -78,6 +93,28 @@ export function saveGeneration(seed: number): Generation {
   return gen;
 }
 
+export function saveChild(seed: number, colorSeed: number, tile: QuiltBlock[][], parents: Generation[]): Generation {
+  const generations = loadGenerations().filter((g) => g.seed !== seed);
+  const gen: Generation = {
+    seed,
+    colorSeed,
+    name: generateName(seed, colorSeed),
+    createdAt: Date.now(),
+    tile,
+    parents: parents.map((p) => p.name),
+  };
+
+  generations.unshift(gen);
+
+  // Trim to max
+  if (generations.length > MAX_GENERATIONS) {
+    generations.length = MAX_GENERATIONS;
+  }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(generations));
+  return gen;
+}
+
 export function deleteGeneration(seed: number): void {
   const generations = loadGenerations().filter((g) => g.seed !== seed);
   localStorage.setItem(STORAGE_KEY, JSON.stringify(generations));
@@ -0,0 +1,31 @@
+// Ombré designs: every patch colour is drawn by the cell's place in the whole
+// quilt, not in the repeat tile. Along the gradient the palette is walked in
+// order (by lightness or as the palette lists it); a cell a fraction t of the
+// way along favours the colour that far through the order, and its
+// neighbours in the order less the further they are from it.
+
+import type { GradientConfig } from "./types";
+
+/** How far along the gradient (0-1) the centre of a cell lies */
+export function gradientPosition(kind: GradientConfig["kind"], row: number, col: number, rows: number, cols: number): number {
+  const y = (row + 0.5) / rows;
+  const x = (col + 0.5) / cols;
+  switch (kind) {
+    case "linear":
+      return y;
+    case "corner":
+      return (x + y) / 2;
+    case "radial":
+      // Out from the centre, reaching 1 at the corners
+      return Math.min(1, Math.hypot(x - 0.5, y - 0.5) / Math.SQRT1_2);
+    default:
+      return 0;
+  }
+}
+
+/** Weight of each of `count` colours in order, for a cell at `t` */
+export function gradientWeights(count: number, t: number, spread: number): number[] {
+  const centre = t * (count - 1);
+  const width = Math.max(0.1, spread);
+  return Array.from({ length: count }, (_, k) => Math.exp(-((k - centre) ** 2) / (2 * width * width)));
+}
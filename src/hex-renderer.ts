@@ -0,0 +1,218 @@
+import type { HexCell } from "./types";
+import { HexFill, isFabricSwatch, isColorSwatch } from "./types";
+import { type ColorToSwatchMap, getOrCreatePattern } from "./shapes";
+import { type HexPiece, hexCenter, hexGridSize, hexPieces, hexPieceCounts } from "./hex";
+
+const BACKGROUND = "#1a1a2e";
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: [number, number][]): void {
+  ctx.beginPath();
+  points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+  ctx.closePath();
+}
+
+function fillPiece(ctx: CanvasRenderingContext2D, piece: HexPiece, size: number, colorMap?: ColorToSwatchMap): void {
+  const swatch = colorMap?.get(piece.color.toUpperCase());
+  tracePolygon(ctx, piece.points);
+  if (swatch && isFabricSwatch(swatch)) {
+    const pattern = getOrCreatePattern(ctx, swatch.dataUrl, size * 2);
+    ctx.fillStyle = pattern ?? "#888888";
+  } else {
+    ctx.fillStyle = swatch && isColorSwatch(swatch) ? swatch : piece.color;
+  }
+  ctx.fill();
+}
+
+function drawHexGrid(
+  ctx: CanvasRenderingContext2D,
+  grid: HexCell[][],
+  size: number,
+  originX: number,
+  originY: number,
+  colorMap?: ColorToSwatchMap
+): void {
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.25)";
+  ctx.lineWidth = 1;
+  grid.forEach((rowCells, row) => {
+    rowCells.forEach((cell, col) => {
+      const c = hexCenter(row, col, size);
+      const pieces = hexPieces(cell, originX + c.x, originY + c.y, size);
+      for (const piece of pieces) {
+        fillPiece(ctx, piece, size, colorMap);
+        ctx.stroke();
+      }
+    });
+  });
+}
+
+/** Draw a hex grid fitted into the canvas's container (HiDPI aware) */
+export function renderHex(
+  canvas: HTMLCanvasElement,
+  grid: HexCell[][],
+  colorMap?: ColorToSwatchMap
+): void {
+  const ctx = canvas.getContext("2d")!;
+
+  const dpr = window.devicePixelRatio || 1;
+  canvas.style.width = "0";
+  canvas.style.height = "0";
+  const container = canvas.parentElement!;
+  const displayWidth = container.clientWidth;
+  const displayHeight = container.clientHeight;
+
+  canvas.width = displayWidth * dpr;
+  canvas.height = displayHeight * dpr;
+  canvas.style.width = `${displayWidth}px`;
+  canvas.style.height = `${displayHeight}px`;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, displayWidth, displayHeight);
+
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  if (rows === 0 || cols === 0) return;
+
+  // Fit to the container with some padding
+  const padding = 20;
+  const unit = hexGridSize(rows, cols, 1);
+  const size = Math.min(
+    (displayWidth - padding * 2) / unit.width,
+    (displayHeight - padding * 2) / unit.height
+  );
+  const { width, height } = hexGridSize(rows, cols, size);
+  drawHexGrid(ctx, grid, size, (displayWidth - width) / 2, (displayHeight - height) / 2, colorMap);
+}
+
+export function renderHexToCanvas(
+  grid: HexCell[][],
+  options?: { hexSize?: number; scale?: number; background?: string; colorMap?: ColorToSwatchMap }
+): HTMLCanvasElement {
+  const size = options?.hexSize ?? 40;
+  const scale = options?.scale ?? 1;
+  const { width, height } = hexGridSize(grid.length, grid[0]?.length ?? 0, size);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const ctx = canvas.getContext("2d")!;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = options?.background ?? BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  drawHexGrid(ctx, grid, size, 0, 0, options?.colorMap);
+  return canvas;
+}
+
+function svgPoints(points: [number, number][]): string {
+  return points.map(([x, y]) => `${+x.toFixed(3)},${+y.toFixed(3)}`).join(" ");
+}
+
+export function renderHexSvg(
+  grid: HexCell[][],
+  options?: { hexSize?: number; background?: string | null }
+): string {
+  const size = options?.hexSize ?? 30;
+  const background = options?.background ?? BACKGROUND;
+  const { width, height } = hexGridSize(grid.length, grid[0]?.length ?? 0, size);
+  const w = +width.toFixed(3);
+  const h = +height.toFixed(3);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`,
+  ];
+  if (background) {
+    parts.push(`<rect x="0" y="0" width="${w}" height="${h}" fill="${background}" />`);
+  }
+  grid.forEach((rowCells, row) => {
+    rowCells.forEach((cell, col) => {
+      const c = hexCenter(row, col, size);
+      for (const piece of hexPieces(cell, c.x, c.y, size)) {
+        parts.push(
+          `<polygon points="${svgPoints(piece.points)}" fill="${piece.color}" stroke="rgba(0, 0, 0, 0.25)" stroke-width="1" />`
+        );
+      }
+    });
+  });
+  parts.push("</svg>");
+  return parts.join("");
+}
+
+// --- English paper piecing templates ---
+
+const SEAM_ALLOWANCE = 0.375; // inches
+
+const PIECE_NAMES: Record<HexFill, string> = {
+  [HexFill.Solid]: "Hexagon",
+  [HexFill.Triangles]: "Triangle",
+  [HexFill.Diamonds]: "Diamond",
+};
+
+/** A single piece of each kind, centred on its incentre */
+function referencePiece(kind: HexFill, side: number): { points: [number, number][]; inradius: number } {
+  const cell: HexCell = { fill: kind, colors: Array(6).fill(""), offset: 0 };
+  const points = hexPieces(cell, 0, 0, side)[0].points;
+  const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  const inradius = {
+    [HexFill.Solid]: (side * Math.sqrt(3)) / 2,
+    [HexFill.Triangles]: side / (2 * Math.sqrt(3)),
+    [HexFill.Diamonds]: (side * Math.sqrt(3)) / 4,
+  }[kind];
+  return { points: points.map(([x, y]) => [x - cx, y - cy]), inradius };
+}
+
+/** Printable SVG (in inches) with one paper template per piece kind used,
+ *  its fabric cutting line, and how many to cut in each colour. */
+export function renderEppTemplate(grid: HexCell[][], sideInches: number, paletteColors: string[]): string {
+  const counts = hexPieceCounts(grid);
+  const pageWidth = 8.5;
+  const margin = 0.5;
+  const lineHeight = 0.22;
+  const parts: string[] = [];
+  let y = margin;
+
+  parts.push(
+    `<text x="${margin}" y="${y + 0.2}" font-family="sans-serif" font-size="0.22">English paper piecing templates — ${sideInches}″ hexagon side, ${SEAM_ALLOWANCE}″ seam allowance (dashed)</text>`
+  );
+  y += 0.6;
+
+  for (const kind of Object.values(HexFill) as HexFill[]) {
+    const byColor = counts.get(kind);
+    if (!byColor) continue;
+
+    const { points, inradius } = referencePiece(kind, sideInches);
+    const grow = (inradius + SEAM_ALLOWANCE) / inradius;
+    const cut = points.map(([px, py]): [number, number] => [px * grow, py * grow]);
+    const minX = Math.min(...cut.map((p) => p[0]));
+    const minY = Math.min(...cut.map((p) => p[1]));
+    const maxY = Math.max(...cut.map((p) => p[1]));
+    const maxX = Math.max(...cut.map((p) => p[0]));
+    const dx = margin - minX;
+    const dy = y - minY;
+    const place = (pts: [number, number][]): [number, number][] => pts.map(([px, py]) => [px + dx, py + dy]);
+
+    parts.push(`<polygon points="${svgPoints(place(cut))}" fill="none" stroke="#000" stroke-width="0.01" stroke-dasharray="0.08 0.05" />`);
+    parts.push(`<polygon points="${svgPoints(place(points))}" fill="none" stroke="#000" stroke-width="0.015" />`);
+
+    const textX = +(margin + (maxX - minX) + 0.3).toFixed(3);
+    const total = [...byColor.values()].reduce((sum, n) => sum + n, 0);
+    const lines = [`${PIECE_NAMES[kind]} — cut ${total}`];
+    for (const [color, n] of [...byColor.entries()].sort((a, b) => b[1] - a[1])) {
+      const idx = paletteColors.findIndex((c) => c.toUpperCase() === color);
+      lines.push(`${n} × ${color}${idx >= 0 ? ` (color ${idx + 1})` : ""}`);
+    }
+    lines.forEach((line, i) => {
+      parts.push(`<text x="${textX}" y="${+(y + 0.2 + i * lineHeight).toFixed(3)}" font-family="sans-serif" font-size="0.16">${line}</text>`);
+    });
+
+    y += Math.max(maxY - minY, lines.length * lineHeight) + 0.4;
+  }
+
+  const pageHeight = Math.max(11, y + margin);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}in" height="${+pageHeight.toFixed(3)}in" viewBox="0 0 ${pageWidth} ${+pageHeight.toFixed(3)}">`,
+    `<rect x="0" y="0" width="${pageWidth}" height="${+pageHeight.toFixed(3)}" fill="#fff" />`,
+    ...parts,
+    "</svg>",
+  ].join("");
+}
@@ -0,0 +1,316 @@
+// Hexagon grid generation for English paper piecing.
+// Positions use axial coordinates (q, r) relative to the centre hex so the
+// 6-fold rotations and mirrors are simple integer maps.
+
+import {
+  type AppState,
+  type HexCell,
+  HexFill,
+  HexLayout,
+  HexSymmetry,
+} from "./types";
+import { SeededRandom } from "./random";
+import { getAllPalettes, roleColor } from "./palette";
+
+interface Axial {
+  q: number;
+  r: number;
+}
+
+function toAxial(row: number, col: number): Axial {
+  // Odd rows are shifted right by half a hex
+  return { q: col - (row - (row & 1)) / 2, r: row };
+}
+
+function hexDistance(a: Axial, b: Axial): number {
+  const dq = a.q - b.q;
+  const dr = a.r - b.r;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+// --- Transforms (60° clockwise rotation, left↔right mirror) ---
+
+function rotatePos(p: Axial): Axial {
+  return { q: -p.r, r: p.q + p.r };
+}
+
+function mirrorPos(p: Axial): Axial {
+  return { q: -p.q - p.r, r: p.r };
+}
+
+function rotateCell(cell: HexCell): HexCell {
+  const c = cell.colors;
+  return { ...cell, colors: [c[5], c[0], c[1], c[2], c[3], c[4]], offset: cell.offset ^ 1 };
+}
+
+function mirrorCell(cell: HexCell): HexCell {
+  // Triangle t maps to 5 - t; diamond pairing parity is unchanged
+  return { ...cell, colors: [...cell.colors].reverse() };
+}
+
+// A symmetry element: `turns` rotations, then an optional mirror
+interface HexTransform {
+  turns: number;
+  mirror: boolean;
+}
+
+function symmetryGroup(symmetry: HexSymmetry): HexTransform[] {
+  const turns = symmetry === HexSymmetry.Rotate6 || symmetry === HexSymmetry.Kaleidoscope ? 6 : 1;
+  const mirrors = symmetry === HexSymmetry.Mirror || symmetry === HexSymmetry.Kaleidoscope ? [false, true] : [false];
+  const group: HexTransform[] = [];
+  for (const mirror of mirrors) {
+    for (let t = 0; t < turns; t++) group.push({ turns: t, mirror });
+  }
+  return group;
+}
+
+function applyPos(p: Axial, g: HexTransform): Axial {
+  let out = p;
+  for (let i = 0; i < g.turns; i++) out = rotatePos(out);
+  return g.mirror ? mirrorPos(out) : out;
+}
+
+/** Undo a transform on a cell's contents */
+function invertCell(cell: HexCell, g: HexTransform): HexCell {
+  let out = g.mirror ? mirrorCell(cell) : cell;
+  for (let i = 0; i < (6 - g.turns) % 6; i++) out = rotateCell(out);
+  return out;
+}
+
+/** Where triangle t ends up under a transform */
+function mapTriangle(t: number, g: HexTransform): number {
+  const rotated = (t + g.turns) % 6;
+  return g.mirror ? 5 - rotated : rotated;
+}
+
+/** Hexes that a symmetry maps onto themselves (the centre, or hexes on a
+ *  mirror axis) must look the same after that symmetry. Merge triangles the
+ *  transforms swap, keeping the colour of the lowest-numbered one. */
+function symmetrize(cell: HexCell, stabilizer: HexTransform[]): HexCell {
+  if (stabilizer.length <= 1) return cell;
+  const parent = [0, 1, 2, 3, 4, 5];
+  const find = (t: number): number => (parent[t] === t ? t : (parent[t] = find(parent[t])));
+  const union = (a: number, b: number) => {
+    const [ra, rb] = [find(a), find(b)];
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  for (const g of stabilizer) {
+    for (let t = 0; t < 6; t++) union(t, mapTriangle(t, g));
+    // An odd rotation moves diamonds onto the other pairing, so both must hold
+    if (cell.fill === HexFill.Diamonds) {
+      const offsets = g.turns % 2 === 1 ? [0, 1] : [cell.offset];
+      for (const o of offsets) for (let j = 0; j < 3; j++) union(o + 2 * j, (o + 2 * j + 1) % 6);
+    }
+  }
+
+  const colors = cell.colors.map((_, t) => cell.colors[find(t)]);
+  return colors.every((c) => c === colors[0]) ? solid(colors[0]) : { ...cell, colors };
+}
+
+function stabilizerOf(p: Axial, group: HexTransform[]): HexTransform[] {
+  return group.filter((g) => {
+    const img = applyPos(p, g);
+    return img.q === p.q && img.r === p.r;
+  });
+}
+
+/** The orbit member with the smallest (r, q), and the transform that reaches it */
+function canonical(p: Axial, group: HexTransform[]): { pos: Axial; transform: HexTransform } {
+  let best = { pos: p, transform: group[0] };
+  for (const g of group) {
+    const img = applyPos(p, g);
+    if (img.r < best.pos.r || (img.r === best.pos.r && img.q < best.pos.q)) {
+      best = { pos: img, transform: g };
+    }
+  }
+  return best;
+}
+
+// --- Rosettes (Grandmother's Flower Garden) ---
+
+// Rosette centres sit on a lattice spanned by two axial vectors. The classic
+// garden uses (3,1) and (-1,4): each seven-hex rosette is ringed by a single
+// shared row of path hexes. That lattice has no mirror image of itself, so the
+// mirror modes use (4,0) and (0,4), which adds a few path hexes where three
+// rosettes meet.
+const CLASSIC_ROSETTES: [Axial, Axial] = [{ q: 3, r: 1 }, { q: -1, r: 4 }];
+const MIRRORED_ROSETTES: [Axial, Axial] = [{ q: 4, r: 0 }, { q: 0, r: 4 }];
+
+function nearestRosette(p: Axial, [a, b]: [Axial, Axial]): { centre: Axial; distance: number } {
+  const det = a.q * b.r - a.r * b.q;
+  const i0 = Math.floor((p.q * b.r - p.r * b.q) / det);
+  const j0 = Math.floor((a.q * p.r - a.r * p.q) / det);
+  let best = { centre: { q: 0, r: 0 }, distance: Infinity };
+  for (let i = i0 - 1; i <= i0 + 2; i++) {
+    for (let j = j0 - 1; j <= j0 + 2; j++) {
+      const centre = { q: i * a.q + j * b.q, r: i * a.r + j * b.r };
+      const distance = hexDistance(p, centre);
+      if (distance < best.distance) best = { centre, distance };
+    }
+  }
+  return best;
+}
+
+// --- Cell contents ---
+
+function solid(color: string): HexCell {
+  return { fill: HexFill.Solid, colors: Array(6).fill(color), offset: 0 };
+}
+
+function randomCell(rng: SeededRandom, fills: HexFill[], paletteColors: string[]): HexCell {
+  const fill = rng.pick(fills);
+  switch (fill) {
+    case HexFill.Triangles: {
+      // Two colours alternating round the centre
+      const a = rng.pick(paletteColors);
+      const b = rng.pick(paletteColors);
+      return { fill, colors: [a, b, a, b, a, b], offset: 0 };
+    }
+    case HexFill.Diamonds: {
+      const [a, b, c] = [rng.pick(paletteColors), rng.pick(paletteColors), rng.pick(paletteColors)];
+      const offset = rng.int(0, 1);
+      const colors = offset === 0 ? [a, a, b, b, c, c] : [c, a, a, b, b, c];
+      return { fill, colors, offset };
+    }
+    default:
+      return solid(rng.pick(paletteColors));
+  }
+}
+
+function enabledFills(state: AppState): HexFill[] {
+  const fills = (Object.values(HexFill) as HexFill[]).filter((f) => state.hex.fills[f]);
+  return fills.length > 0 ? fills : [HexFill.Solid];
+}
+
+/** Generate a gridHeight × gridWidth grid of hexes (rows of offset hexes) */
+export function generateHexGrid(state: AppState): HexCell[][] {
+  const palettes = getAllPalettes(state.customPalettes);
+  const palette = palettes[state.paletteIndex % palettes.length];
+  const colorCount = Math.max(1, Math.min(state.paletteColorCount, palette.colors.length));
+  const paletteColors = Array.from({ length: colorCount }, (_, slot) => roleColor(slot));
+  const fills = enabledFills(state);
+  const { gridWidth, gridHeight } = state;
+  const rng = new SeededRandom(state.seed);
+
+  const centre = toAxial(Math.floor(gridHeight / 2), Math.floor(gridWidth / 2));
+  const relative = (row: number, col: number): Axial => {
+    const p = toAxial(row, col);
+    return { q: p.q - centre.q, r: p.r - centre.r };
+  };
+
+  const group = symmetryGroup(state.hex.symmetry);
+  const generated = new Map<string, HexCell>();
+  const key = (p: Axial) => `${p.q},${p.r}`;
+
+  if (state.hex.layout === HexLayout.Rosettes) {
+    const path = rng.pick(paletteColors);
+    const petalColors = paletteColors.filter((c) => c !== path);
+    const lattice = group.some((g) => g.mirror) ? MIRRORED_ROSETTES : CLASSIC_ROSETTES;
+
+    return Array.from({ length: gridHeight }, (_, row) =>
+      Array.from({ length: gridWidth }, (_, col) => {
+        const { centre: rosette, distance } = nearestRosette(relative(row, col), lattice);
+        if (distance > 1) return solid(path);
+
+        const { pos, transform } = canonical(rosette, group);
+        const k = key(pos);
+        if (!generated.has(k)) {
+          // Each rosette gets its own centre hex and petal colour
+          generated.set(k, symmetrize(randomCell(rng, fills, paletteColors), stabilizerOf(pos, group)));
+          generated.set(`${k}/petal`, solid(rng.pick(petalColors.length > 0 ? petalColors : paletteColors)));
+        }
+        if (distance === 1) return generated.get(`${k}/petal`)!;
+        return invertCell(generated.get(k)!, transform);
+      })
+    );
+  }
+
+  return Array.from({ length: gridHeight }, (_, row) =>
+    Array.from({ length: gridWidth }, (_, col) => {
+      const { pos, transform } = canonical(relative(row, col), group);
+      const k = key(pos);
+      if (!generated.has(k)) {
+        generated.set(k, symmetrize(randomCell(rng, fills, paletteColors), stabilizerOf(pos, group)));
+      }
+      return invertCell(generated.get(k)!, transform);
+    })
+  );
+}
+
+// --- Geometry ---
+
+/** Pixel centre of a hex, for hexes with side length `size` */
+export function hexCenter(row: number, col: number, size: number): { x: number; y: number } {
+  const w = Math.sqrt(3) * size;
+  return {
+    x: w * (col + 0.5 * (row & 1)) + w / 2,
+    y: size + 1.5 * size * row,
+  };
+}
+
+/** Pixel extent of a whole grid of hexes */
+export function hexGridSize(rows: number, cols: number, size: number): { width: number; height: number } {
+  if (rows === 0 || cols === 0) return { width: 0, height: 0 };
+  const w = Math.sqrt(3) * size;
+  return {
+    width: w * (cols + (rows > 1 ? 0.5 : 0)),
+    height: size * (2 + 1.5 * (rows - 1)),
+  };
+}
+
+/** Corner i of a pointy-top hex, clockwise from the top */
+export function hexCorner(cx: number, cy: number, size: number, i: number): [number, number] {
+  const angle = ((-90 + 60 * i) * Math.PI) / 180;
+  return [cx + size * Math.cos(angle), cy + size * Math.sin(angle)];
+}
+
+export interface HexPiece {
+  kind: HexFill;
+  color: string;
+  points: [number, number][];
+}
+
+/** The fabric pieces of one hex as polygons */
+export function hexPieces(cell: HexCell, cx: number, cy: number, size: number): HexPiece[] {
+  const corner = (i: number) => hexCorner(cx, cy, size, i % 6);
+  switch (cell.fill) {
+    case HexFill.Triangles:
+      return cell.colors.map((color, t) => ({
+        kind: HexFill.Triangles,
+        color,
+        points: [[cx, cy], corner(t), corner(t + 1)],
+      }));
+    case HexFill.Diamonds:
+      return [0, 1, 2].map((j) => {
+        const t = cell.offset + 2 * j;
+        return {
+          kind: HexFill.Diamonds,
+          color: cell.colors[t % 6],
+          points: [[cx, cy], corner(t), corner(t + 1), corner(t + 2)],
+        };
+      });
+    default:
+      return [{
+        kind: HexFill.Solid,
+        color: cell.colors[0],
+        points: [0, 1, 2, 3, 4, 5].map(corner),
+      }];
+  }
+}
+
+/** Number of pieces of each kind and colour, for cutting lists and templates */
+export function hexPieceCounts(grid: HexCell[][]): Map<HexFill, Map<string, number>> {
+  const counts = new Map<HexFill, Map<string, number>>();
+  for (const row of grid) {
+    for (const cell of row) {
+      for (const piece of hexPieces(cell, 0, 0, 1)) {
+        const byColor = counts.get(piece.kind) ?? new Map<string, number>();
+        const color = piece.color.toUpperCase();
+        byColor.set(color, (byColor.get(color) ?? 0) + 1);
+        counts.set(piece.kind, byColor);
+      }
+    }
+  }
+  return counts;
+}
@@ -1,12 +1,46 @@
-import { type AppState, type QuiltBlock, ShapeType, SymmetryMode } from "./types";
-import { SeededRandom } from "./random";
-import { getAllPalettes } from "./palette";
+import {
+  type AppState,
+  type CellSpan,
+  Generator,
+  type MedallionRound,
+  type QuiltBlock,
+  RepeatOffset,
+  RoundStyle,
+  ShapeType,
+  SymmetryMode,
+  isCoveredCell,
+  isSpanShape,
+  subdivisionSize,
+  type WfcConfig,
+} from "./types";
+import { SeededRandom, mixSeed } from "./random";
+import { getAllPalettes, paletteWeights, resolveColor, roleColor, roleSlot, valueColor, valueLevel } from "./palette";
+import { slotsByLightness, valueClasses } from "./value-map";
+import { gradientPosition, gradientWeights } from "./gradient";
+import {
+  type TraditionalBlock,
+  assignRoleColors,
+  collectRoles,
+  getBlockById,
+  instantiateBlockInUnit,
+  libraryUnitSize,
+} from "./blocks";
+import { isAlternateTile, repeatLayout, tilePosition } from "./repeat";
+import { medallionCentre, medallionSize, ringCells } from "./medallion";
+import { bandRanges } from "./row-quilt";
+import { type CellOp, type SymmetryCell, symmetryMap } from "./wallpaper";
+import { type ColorRules, ColorTally, hasActiveConstraints, patchColors, seamViolations, sideColors } from "./constraints";
+import { type WfcCell, type WfcTileSet, solveWfc } from "./wfc";
 
 function buildWeightedShapePool(state: AppState): ShapeType[] {
+  return weightedShapePool(state.shapeRatios, (shape) => state.enabledShapes[shape]);
+}
+
+function weightedShapePool(ratios: Record<ShapeType, number>, isEnabled: (shape: ShapeType) => boolean): ShapeType[] {
   const pool: ShapeType[] = [];
   for (const shape of Object.values(ShapeType)) {
-    if (state.enabledShapes[shape]) {
-      const weight = state.shapeRatios[shape];
+    if (isEnabled(shape)) {
+      const weight = ratios[shape] ?? 0;
       for (let i = 0; i < weight; i++) {
         pool.push(shape);
       }
@@ -18,39 +52,216 @@ function buildWeightedShapePool(state: AppState): ShapeType[] {
   return pool;
 }
 
-function randomBlock(rng: SeededRandom, pool: ShapeType[], paletteColors: string[]): QuiltBlock {
-  const shape = rng.pick(pool);
-  const rotation = rng.pick([0, 90, 180, 270]);
-
-  let colors: string[];
+/** Fresh colours for a shape, one per patch */
+function randomColors(shape: ShapeType, rng: SeededRandom, paletteColors: string[]): string[] {
   switch (shape) {
     case ShapeType.Square:
-      colors = [rng.pick(paletteColors)];
-      break;
+      return [rng.pick(paletteColors)];
     case ShapeType.HST:
-      colors = [rng.pick(paletteColors), rng.pick(paletteColors)];
-      break;
+      return [rng.pick(paletteColors), rng.pick(paletteColors)];
     case ShapeType.QST:
-      colors = [
+      return [
         rng.pick(paletteColors),
         rng.pick(paletteColors),
         rng.pick(paletteColors),
         rng.pick(paletteColors),
       ];
-      break;
+    case ShapeType.FlyingGeese: {
+      const sky = rng.pick(paletteColors);
+      return [rng.pick(paletteColors), sky, sky];
+    }
+    case ShapeType.HRT:
+      return [rng.pick(paletteColors), rng.pick(paletteColors)];
+    case ShapeType.Rectangle:
+      return [rng.pick(paletteColors)];
+    case ShapeType.DrunkardsPath:
+    case ShapeType.Snowball:
+      return [rng.pick(paletteColors), rng.pick(paletteColors)];
+    case ShapeType.FourPatch:
+    case ShapeType.NinePatch:
+      return []; // Colored through the sub-grid
     default:
       // HSTSplit and other derived shapes are only created by simplification
-      colors = [rng.pick(paletteColors)];
-      break;
+      return [rng.pick(paletteColors)];
+  }
+}
+
+/** Colours to draw from, each listed as many times as its weight (like the
+ *  shape pool); all of them once when there are no weights or none is set */
+function weightedColors(paletteColors: string[], weights: number[] | null): string[] {
+  if (!weights) return paletteColors;
+  const draws = paletteColors.flatMap((color, i) => Array<string>(weights[i] ?? 0).fill(color));
+  return draws.length > 0 ? draws : paletteColors;
+}
+
+/** Where a tile's colours are drawn from, apart from its shapes so either
+ *  can be rerolled alone. Each cell draws from a stream of its own, so a cell
+ *  given a new shape keeps roughly the colours it had. */
+class ColorDraws {
+  private seed: number;
+  readonly shared: SeededRandom; // draws not tied to one cell (exact colours, colour rules)
+
+  constructor(seed: number) {
+    this.seed = seed;
+    this.shared = new SeededRandom(mixSeed(seed));
+  }
+
+  at(row: number, col: number): SeededRandom {
+    return new SeededRandom(mixSeed(this.seed, row, col));
+  }
+}
+
+/** Colour draws for a generator seeded with `offset` past the quilt seed, or
+ *  null for designs whose colours come from the shape stream */
+function colorDraws(state: AppState, offset = 0): ColorDraws | null {
+  return state.colorSeed === null || state.colorSeed === undefined ? null : new ColorDraws(state.colorSeed + offset);
+}
+
+/** Draws for a sub-grid or corner tile made with colours from `colorRng`:
+ *  seeded from it when colours have a stream of their own, else none */
+function nestedDraws(rng: SeededRandom, colorRng: SeededRandom): ColorDraws | null {
+  return colorRng === rng ? null : new ColorDraws(colorRng.int(0, 2147483646));
+}
+
+/** A random block; the colours come from `colorRng` when given. */
+function randomBlock(
+  rng: SeededRandom,
+  pool: ShapeType[],
+  paletteColors: string[],
+  colorRng: SeededRandom = rng
+): QuiltBlock {
+  const shape = rng.pick(pool);
+  const rotation = rng.pick([0, 90, 180, 270]);
+  const colors = randomColors(shape, colorRng, paletteColors);
+
+  const subSize = subdivisionSize(shape);
+  if (subSize > 0) {
+    const subgrid = randomSubgrid(rng, subSize, pool, paletteColors, nestedDraws(rng, colorRng));
+    return { shape, colors: [], rotation, subgrid };
+  }
+
+  if (isSpanShape(shape)) {
+    // Anchor cell: partner is to the right when horizontal, below when vertical
+    const span: CellSpan = rotation % 180 === 0 ? { dRow: 0, dCol: 1 } : { dRow: 1, dCol: 0 };
+    return { shape, colors, rotation, span };
   }
 
   return { shape, colors, rotation };
 }
 
+/** Fill a compound cell's sub-grid from the simple shapes in the pool. The
+ *  sub-grid gets its own small symmetry so it reads as a unit (four-patch,
+ *  pinwheel, nine-patch) rather than noise. */
+function randomSubgrid(
+  rng: SeededRandom,
+  size: number,
+  pool: ShapeType[],
+  paletteColors: string[],
+  colors: ColorDraws | null
+): QuiltBlock[][] {
+  const subPool = pool.filter((s) => !isSpanShape(s) && subdivisionSize(s) === 0);
+  if (subPool.length === 0) subPool.push(ShapeType.Square);
+  const subMode = rng.pick<SymmetryMode>([
+    SymmetryMode.None,
+    SymmetryMode.FourWay,
+    SymmetryMode.Rotational,
+    SymmetryMode.Horizontal,
+  ]);
+  return generateTile(size, size, 100, subMode, rng, subPool, paletteColors, false, undefined, colors);
+}
+
+/** Every color slot in a block, including those inside a compound sub-grid */
+function collectColorSlots(block: QuiltBlock): { block: QuiltBlock; colorIdx: number }[] {
+  if (block.subgrid) {
+    return block.subgrid.flatMap((row) => row.flatMap(collectColorSlots));
+  }
+  return block.colors.map((_, colorIdx) => ({ block, colorIdx }));
+}
+
+// --- Two-cell units ---
+
+/** Replace one half of a two-cell unit with the single-cell block that best
+ *  matches it. Used when a unit doesn't fit or symmetry splits it apart. */
+export function splitSpan(block: QuiltBlock): QuiltBlock {
+  const r = block.rotation;
+  // Which half of the unrotated (2×1) unit this cell shows
+  const isBaseLeft = (r < 180) === !isCoveredCell(block);
+
+  switch (block.shape) {
+    case ShapeType.FlyingGeese: {
+      const [goose, skyLeft, skyRight] = block.colors;
+      // Each half of a flying geese unit is exactly an HST
+      return isBaseLeft
+        ? { shape: ShapeType.HST, colors: [skyLeft, goose], rotation: (r + 90) % 360 }
+        : { shape: ShapeType.HST, colors: [goose, skyRight], rotation: r };
+    }
+    case ShapeType.HRT:
+      return { shape: ShapeType.HST, colors: [...block.colors], rotation: r };
+    case ShapeType.HRTMirror:
+      return { shape: ShapeType.HST, colors: [...block.colors], rotation: (r + 270) % 360 };
+    default:
+      return { shape: ShapeType.Square, colors: [block.colors[0]], rotation: 0 };
+  }
+}
+
+/** Blocks whose mirror image can't be expressed by rotation alone: they are
+ *  mirrored in their own unrotated frame (see mirrorBase) */
+function hasMirrorBase(b: QuiltBlock): boolean {
+  return isSpanShape(b.shape) || !!b.subgrid;
+}
+
+/** Mirror an unrotated two-cell unit or compound sub-grid across its own vertical axis */
+function mirrorBase(b: QuiltBlock): void {
+  if (b.subgrid) {
+    b.subgrid = b.subgrid.map((row) => [...row].reverse().map(mirrorH));
+  } else if (b.shape === ShapeType.FlyingGeese) {
+    b.colors = [b.colors[0], b.colors[2], b.colors[1]];
+  } else if (b.shape === ShapeType.HRT) {
+    b.shape = ShapeType.HRTMirror;
+  } else if (b.shape === ShapeType.HRTMirror) {
+    b.shape = ShapeType.HRT;
+  }
+}
+
+function mapSpan(b: QuiltBlock, fn: (s: CellSpan) => CellSpan): void {
+  if (b.span) b.span = fn(b.span);
+}
+
+/** Check that every two-cell unit has a matching partner, and split any that
+ *  don't (e.g. cut off at the grid edge or broken by partial symmetry). */
+function resolveSpans(grid: QuiltBlock[][]): QuiltBlock[][] {
+  const out = grid.map((row) => [...row]);
+  const broken: { row: number; col: number }[] = [];
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      const block = grid[row][col];
+      if (!block.span) continue;
+      const { dRow, dCol } = block.span;
+      const horizontal = block.rotation % 180 === 0;
+      const partner = grid[row + dRow]?.[col + dCol];
+      const valid =
+        !!partner?.span &&
+        (horizontal ? dRow === 0 && Math.abs(dCol) === 1 : dCol === 0 && Math.abs(dRow) === 1) &&
+        partner.span.dRow === -dRow &&
+        partner.span.dCol === -dCol &&
+        partner.shape === block.shape &&
+        partner.rotation === block.rotation &&
+        partner.colors.every((c, i) => c.toUpperCase() === block.colors[i]?.toUpperCase());
+      if (!valid) broken.push({ row, col });
+    }
+  }
+
+  for (const { row, col } of broken) {
+    out[row][col] = splitSpan(grid[row][col]);
+  }
+  return out;
+}
+
 // --- Block transforms ---
 
 /** Mirror across the vertical axis (left↔right) */
-function mirrorH(block: QuiltBlock): QuiltBlock {
+export function mirrorH(block: QuiltBlock): QuiltBlock {
   const b = { ...block, colors: [...block.colors] };
   if (b.shape === ShapeType.HST) {
     // Horizontal flip: swap colors AND flip diagonal (90° shift)
@@ -60,12 +271,19 @@ function mirrorH(block: QuiltBlock): QuiltBlock {
     // top(0), right(1), bottom(2), left(3) → swap right/left
     b.colors = [b.colors[0], b.colors[3], b.colors[2], b.colors[1]];
     b.rotation = (360 - b.rotation) % 360;
+  } else if (b.shape === ShapeType.DrunkardsPath) {
+    // Pie corner: bottom-left ↔ bottom-right, top-left ↔ top-right
+    b.rotation = (270 - b.rotation + 360) % 360;
+  } else if (hasMirrorBase(b)) {
+    mirrorBase(b);
+    b.rotation = (360 - b.rotation) % 360;
   }
+  mapSpan(b, (s) => ({ dRow: s.dRow, dCol: -s.dCol }));
   return b;
 }
 
 /** Mirror across the horizontal axis (top↔bottom) */
-function mirrorV(block: QuiltBlock): QuiltBlock {
+export function mirrorV(block: QuiltBlock): QuiltBlock {
   const b = { ...block, colors: [...block.colors] };
   if (b.shape === ShapeType.HST) {
     // Vertical flip: flip diagonal without swapping colors
@@ -74,8 +292,15 @@ function mirrorV(block: QuiltBlock): QuiltBlock {
   } else if (b.shape === ShapeType.QST) {
     // swap top/bottom
     b.colors = [b.colors[2], b.colors[1], b.colors[0], b.colors[3]];
+    b.rotation = (360 - b.rotation) % 360;
+  } else if (b.shape === ShapeType.DrunkardsPath) {
+    // Pie corner: bottom-left ↔ top-left, bottom-right ↔ top-right
+    b.rotation = (90 - b.rotation + 360) % 360;
+  } else if (hasMirrorBase(b)) {
+    mirrorBase(b);
     b.rotation = (180 - b.rotation + 360) % 360;
   }
+  mapSpan(b, (s) => ({ dRow: -s.dRow, dCol: s.dCol }));
   return b;
 }
 
@@ -84,10 +309,10 @@ function rotate180(block: QuiltBlock): QuiltBlock {
   const b = { ...block, colors: [...block.colors] };
   if (b.shape === ShapeType.HST) {
     b.rotation = (b.rotation + 180) % 360;
-  } else if (b.shape === ShapeType.QST) {
-    b.colors = [b.colors[2], b.colors[3], b.colors[0], b.colors[1]];
+  } else if (b.shape === ShapeType.QST || b.shape === ShapeType.DrunkardsPath || hasMirrorBase(b)) {
     b.rotation = (b.rotation + 180) % 360;
   }
+  mapSpan(b, (s) => ({ dRow: -s.dRow, dCol: -s.dCol }));
   return b;
 }
 
@@ -97,6 +322,9 @@ function rotateCW(block: QuiltBlock, turns: number): QuiltBlock {
   if (normalized === 0) return block;
   const b = { ...block, colors: [...block.colors] };
   b.rotation = (b.rotation + normalized * 90) % 360;
+  for (let i = 0; i < normalized; i++) {
+    mapSpan(b, (s) => ({ dRow: s.dCol, dCol: -s.dRow }));
+  }
   return b;
 }
 
@@ -107,14 +335,21 @@ function mirrorDiagTLBR(block: QuiltBlock): QuiltBlock {
   // which is the same as: swap top↔left, swap right↔bottom
   const b = { ...block, colors: [...block.colors] };
   if (b.shape === ShapeType.HST) {
-    // The diagonal line in an HST aligns with this axis, so we swap + adjust rotation
+    // The unrotated seam lies on this axis, so the two halves trade places
     b.colors = [b.colors[1], b.colors[0]];
-    b.rotation = ((90 - b.rotation + 360) % 360);
+    b.rotation = (360 - b.rotation) % 360;
   } else if (b.shape === ShapeType.QST) {
     // top(0)↔left(3), right(1)↔bottom(2)
     b.colors = [b.colors[3], b.colors[2], b.colors[1], b.colors[0]];
-    b.rotation = ((90 - b.rotation + 360) % 360);
+    b.rotation = (360 - b.rotation) % 360;
+  } else if (b.shape === ShapeType.DrunkardsPath) {
+    // Pie corner: bottom-left ↔ top-right; top-left and bottom-right stay put
+    b.rotation = ((180 - b.rotation + 360) % 360);
+  } else if (hasMirrorBase(b)) {
+    mirrorBase(b);
+    b.rotation = ((270 - b.rotation + 360) % 360);
   }
+  mapSpan(b, (s) => ({ dRow: s.dCol, dCol: s.dRow }));
   return b;
 }
 
@@ -125,16 +360,162 @@ function mirrorDiagTRBL(block: QuiltBlock): QuiltBlock {
   // which is: swap top↔right, swap left↔bottom
   const b = { ...block, colors: [...block.colors] };
   if (b.shape === ShapeType.HST) {
-    b.colors = [b.colors[1], b.colors[0]];
-    b.rotation = ((270 - b.rotation + 360) % 360);
+    // The unrotated seam is perpendicular to this axis, so each half maps to itself
+    b.rotation = (360 - b.rotation) % 360;
   } else if (b.shape === ShapeType.QST) {
     // top(0)↔right(1), left(3)↔bottom(2)
     b.colors = [b.colors[1], b.colors[0], b.colors[3], b.colors[2]];
-    b.rotation = ((270 - b.rotation + 360) % 360);
+    b.rotation = (360 - b.rotation) % 360;
+  } else if (b.shape === ShapeType.DrunkardsPath) {
+    // Pie corner: top-left ↔ bottom-right; bottom-left and top-right stay put
+    b.rotation = ((360 - b.rotation) % 360);
+  } else if (hasMirrorBase(b)) {
+    mirrorBase(b);
+    b.rotation = ((90 - b.rotation + 360) % 360);
   }
+  mapSpan(b, (s) => ({ dRow: -s.dCol, dCol: -s.dRow }));
   return b;
 }
 
+const CELL_OP_TRANSFORMS: Record<CellOp, (b: QuiltBlock) => QuiltBlock> = {
+  identity: (b) => b,
+  mirrorH,
+  mirrorV,
+  rotate180,
+  rotateCW: (b) => rotateCW(b, 1),
+  rotateCCW: (b) => rotateCW(b, 3),
+  mirrorDiagTLBR,
+  mirrorDiagTRBL,
+};
+
+/** One representation for blocks that look the same: symmetric shapes at
+ *  rotation 0, HSTs below 180°, QSTs and compound cells unrotated */
+function normalizeBlock(block: QuiltBlock): QuiltBlock {
+  const turns = block.rotation / 90;
+  switch (block.shape) {
+    case ShapeType.Square:
+    case ShapeType.Snowball:
+      return { ...block, rotation: 0 };
+    case ShapeType.HST:
+      return block.rotation >= 180
+        ? { ...block, colors: [block.colors[1], block.colors[0]], rotation: block.rotation - 180 }
+        : block;
+    case ShapeType.QST:
+      // Side p shows colour (p - turns) of the unrotated block
+      return { ...block, colors: block.colors.map((_, p) => block.colors[(p - turns + 4) % 4]), rotation: 0 };
+    case ShapeType.FourPatch:
+    case ShapeType.NinePatch: {
+      const sub = block.subgrid ?? [];
+      const n = sub.length;
+      let grid = sub;
+      for (let t = 0; t < turns; t++) {
+        grid = grid.map((row, i) => row.map((_, j) => grid[n - 1 - j][i]));
+      }
+      return {
+        ...block,
+        rotation: 0,
+        subgrid: grid.map((row) => row.map((child) => normalizeBlock(rotateCW(child, turns)))),
+      };
+    }
+    default:
+      return block;
+  }
+}
+
+function sameBlock(x: QuiltBlock, y: QuiltBlock): boolean {
+  const a = normalizeBlock(x);
+  const b = normalizeBlock(y);
+  if (a.shape !== b.shape || a.rotation !== b.rotation || a.colors.length !== b.colors.length) return false;
+  if (!a.colors.every((c, i) => c.toUpperCase() === b.colors[i].toUpperCase())) return false;
+  if (!a.subgrid || !b.subgrid) return !a.subgrid && !b.subgrid;
+  return a.subgrid.every((row, r) => row.every((child, c) => sameBlock(child, b.subgrid![r][c])));
+}
+
+/** A block for a cell on a mirror line or rotation centre: the given block if
+ *  the stabilising ops leave it unchanged, else a fresh random one that they
+ *  do, else a plain square in the block's first colour. */
+function invariantBlock(
+  block: QuiltBlock,
+  stabilizer: CellOp[],
+  rng: SeededRandom,
+  pool: ShapeType[],
+  paletteColors: string[],
+  colorRng: SeededRandom = rng
+): QuiltBlock {
+  const isInvariant = (b: QuiltBlock) =>
+    !b.span && stabilizer.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](b), b));
+  if (isInvariant(block)) return block;
+  for (let attempt = 0; attempt < 12; attempt++) {
+    const candidate = randomBlock(rng, pool, paletteColors, colorRng);
+    if (isInvariant(candidate)) return candidate;
+  }
+  const color = collectColorSlots(block).map((s) => s.block.colors[s.colorIdx])[0] ?? colorRng.pick(paletteColors);
+  return { shape: ShapeType.Square, colors: [color], rotation: 0 };
+}
+
+/** True if every copy of either half of the two-cell unit anchored at
+ *  (row, col) lands inside the tile with the other half copied by the same
+ *  transform */
+function unitCopiesStayWhole(map: SymmetryCell[][], row: number, col: number, block: QuiltBlock): boolean {
+  const partnerRow = row + block.span!.dRow;
+  const partnerCol = col + block.span!.dCol;
+  const halves = [
+    { row, col, other: { row: partnerRow, col: partnerCol }, span: block.span! },
+    { row: partnerRow, col: partnerCol, other: { row, col }, span: { dRow: -block.span!.dRow, dCol: -block.span!.dCol } },
+  ];
+  for (let r = 0; r < map.length; r++) {
+    for (let c = 0; c < map[r].length; c++) {
+      const source = map[r][c].source;
+      const half = source && halves.find((h) => h.row === source.row && h.col === source.col);
+      if (!source || !half) continue;
+      const span = CELL_OP_TRANSFORMS[source.op]({ ...block, span: half.span }).span!;
+      const partner = map[r + span.dRow]?.[c + span.dCol]?.source;
+      if (!partner || partner.row !== half.other.row || partner.col !== half.other.col || partner.op !== source.op) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/** The same check for the mirror and rotation modes, which have no symmetry
+ *  map: copies of a unit on the mirror line or rotation centre overlap it */
+function sourceCopiesStayWhole(
+  tileW: number,
+  tileH: number,
+  mode: SymmetryMode,
+  row: number,
+  col: number,
+  block: QuiltBlock
+): boolean {
+  const partnerRow = row + block.span!.dRow;
+  const partnerCol = col + block.span!.dCol;
+  const halves = [
+    { row, col, other: { row: partnerRow, col: partnerCol }, span: block.span! },
+    { row: partnerRow, col: partnerCol, other: { row, col }, span: { dRow: -block.span!.dRow, dCol: -block.span!.dCol } },
+  ];
+  const sourceAt = (r: number, c: number) =>
+    r >= 0 && r < tileH && c >= 0 && c < tileW ? getSymmetrySource(r, c, tileW, tileH, mode) : null;
+  for (let r = 0; r < tileH; r++) {
+    for (let c = 0; c < tileW; c++) {
+      const source = sourceAt(r, c);
+      const half = source && halves.find((h) => h.row === source.srcRow && h.col === source.srcCol);
+      if (!source || !half) continue;
+      const span = source.transform({ ...block, span: half.span }).span!;
+      const partner = sourceAt(r + span.dRow, c + span.dCol);
+      if (
+        !partner ||
+        partner.srcRow !== half.other.row ||
+        partner.srcCol !== half.other.col ||
+        partner.transform !== source.transform
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
 // --- Tile symmetry source lookup ---
 
 /** For a given (row, col) in a tile, return the canonical source (srcRow, srcCol)
@@ -147,9 +528,16 @@ function getSymmetrySource(
   tileH: number,
   mode: SymmetryMode
 ): { srcRow: number; srcCol: number; transform: (b: QuiltBlock) => QuiltBlock } | null {
+  // Group-defined modes (wallpaper groups, kaleidoscope, pinwheel, diagonals)
+  const map = symmetryMap(mode, tileW, tileH);
+  if (map) {
+    const source = map[row][col].source;
+    if (!source) return null;
+    return { srcRow: source.row, srcCol: source.col, transform: CELL_OP_TRANSFORMS[source.op] };
+  }
+
   const halfW = Math.ceil(tileW / 2);
   const halfH = Math.ceil(tileH / 2);
-  const dim = Math.min(tileW, tileH); // for diagonal modes
 
   switch (mode) {
     case SymmetryMode.None:
@@ -165,79 +553,6 @@ function getSymmetrySource(
       if (row < halfH) return null;
       return { srcRow: tileH - 1 - row, srcCol: col, transform: mirrorV };
 
-    case SymmetryMode.FourWay:
-      // Top-left quadrant with diagonal symmetry is canonical, then rotate 90° into other quadrants.
-      if (tileW !== tileH) {
-        // Fallback to mirror-based symmetry for non-square tiles.
-        if (row < halfH && col < halfW) return null;
-        const srcRow = row < halfH ? row : tileH - 1 - row;
-        const srcCol = col < halfW ? col : tileW - 1 - col;
-        if (col >= halfW && row < halfH) {
-          return { srcRow, srcCol, transform: mirrorH };
-        } else if (col < halfW && row >= halfH) {
-          return { srcRow, srcCol, transform: mirrorV };
-        } else {
-          return { srcRow, srcCol, transform: (b) => mirrorH(mirrorV(b)) };
-        }
-      }
-      {
-        const size = tileW;
-        const half = Math.ceil(size / 2);
-        let turns = 0;
-
-        if (row < half && col >= half) turns = 1; // top-right
-        else if (row >= half && col >= half) turns = 2; // bottom-right
-        else if (row >= half && col < half) turns = 3; // bottom-left
-
-        let srcRow = row;
-        let srcCol = col;
-        if (turns === 1) {
-          srcRow = size - 1 - col;
-          srcCol = row;
-        } else if (turns === 2) {
-          srcRow = size - 1 - row;
-          srcCol = size - 1 - col;
-        } else if (turns === 3) {
-          srcRow = col;
-          srcCol = size - 1 - row;
-        }
-
-        let needsDiag = false;
-        if (srcRow > srcCol) {
-          [srcRow, srcCol] = [srcCol, srcRow];
-          needsDiag = true;
-        }
-
-        if (turns === 0 && !needsDiag) return null;
-        return {
-          srcRow,
-          srcCol,
-          transform: (b) => {
-            let out = b;
-            if (needsDiag) out = mirrorDiagTLBR(out);
-            if (turns !== 0) out = rotateCW(out, turns);
-            return out;
-          },
-        };
-      }
-
-    case SymmetryMode.DiagonalTLBR:
-      // Canonical region: row <= col (upper-right triangle including diagonal)
-      // Actually: below the diagonal mirrors from above
-      if (col >= row) return null; // above or on diagonal = canonical
-      if (row >= dim) return null;  // outside square region = canonical (no mirror source)
-      return { srcRow: col, srcCol: row, transform: mirrorDiagTLBR };
-
-    case SymmetryMode.DiagonalTRBL:
-      // Canonical region: row + col < dim (upper-left triangle)
-      if (row + col < dim) return null;
-      {
-        const sr = dim - 1 - col;
-        const sc = dim - 1 - row;
-        if (sr < 0 || sc < 0 || sr >= tileH || sc >= tileW) return null;
-        return { srcRow: sr, srcCol: sc, transform: mirrorDiagTRBL };
-      }
-
     case SymmetryMode.Rotational:
       // Top half is canonical, bottom half is 180° rotation
       if (row < halfH) return null;
@@ -254,20 +569,60 @@ function getSymmetrySource(
   }
 }
 
+/** A small tile showing how a symmetry mode arranges copies of one motif,
+ *  for the symmetry picker. The motif is a QST that looks different under
+ *  every turn and flip; cells that must be symmetric themselves are plain. */
+export function symmetryDiagram(mode: SymmetryMode, size: number, colors: [string, string, string]): QuiltBlock[][] {
+  const [accent, mid, dim] = colors;
+  const motif: QuiltBlock = { shape: ShapeType.QST, colors: [accent, mid, dim, dim], rotation: 0 };
+  const map = symmetryMap(mode, size, size);
+  const tile = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col): QuiltBlock =>
+      map && map[row][col].stabilizer.length > 0
+        ? { shape: ShapeType.Square, colors: [dim], rotation: 0 }
+        : motif
+    )
+  );
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const source = getSymmetrySource(row, col, size, size, mode);
+      if (source) tile[row][col] = source.transform(tile[source.srcRow][source.srcCol]);
+    }
+  }
+  return tile;
+}
+
+export type SymmetryCellKind = "free" | "copied" | "fixed";
+
+/** How each cell of a repeat tile is generated: freely, as a copy of another
+ *  cell, or freely but required to be symmetric itself (on a mirror line or
+ *  turn centre) */
+export function symmetryCellKinds(mode: SymmetryMode, tileW: number, tileH: number): SymmetryCellKind[][] {
+  const map = symmetryMap(mode, tileW, tileH);
+  return Array.from({ length: tileH }, (_, row) =>
+    Array.from({ length: tileW }, (_, col): SymmetryCellKind => {
+      if (getSymmetrySource(row, col, tileW, tileH, mode)) return "copied";
+      return map && map[row][col].stabilizer.length > 0 ? "fixed" : "free";
+    })
+  );
+}
+
 // Ensure all colors are used in the tile (for exact mode)
-// Only modifies canonical (source) cells - cells that don't derive from another via symmetry
+// Only modifies canonical (source) cells - cells that don't derive from another via symmetry.
+// With weights, the patches given up come from the heaviest colours, never a colour's last one.
 function ensureAllColorsUsed(
   tile: QuiltBlock[][], 
   paletteColors: string[], 
   rng: SeededRandom,
-  symmetryMode: SymmetryMode
+  symmetryMode: SymmetryMode,
+  weights: number[] | null = null
 ): void {
   const tileH = tile.length;
   const tileW = tile[0]?.length || 0;
   
   // Find which colors are used in canonical cells only
   const usedColors = new Set<string>();
-  const canonicalPositions: { row: number; col: number; colorIdx: number }[] = [];
+  const canonicalPositions: { row: number; col: number; block: QuiltBlock; colorIdx: number }[] = [];
   
   for (let row = 0; row < tileH; row++) {
     for (let col = 0; col < tileW; col++) {
@@ -276,9 +631,10 @@ function ensureAllColorsUsed(
       if (source) continue; // Skip derived cells
       
       const block = tile[row][col];
-      for (let colorIdx = 0; colorIdx < block.colors.length; colorIdx++) {
-        usedColors.add(block.colors[colorIdx].toUpperCase());
-        canonicalPositions.push({ row, col, colorIdx });
+      if (isCoveredCell(block)) continue; // Colored through its partner
+      for (const slot of collectColorSlots(block)) {
+        usedColors.add(slot.block.colors[slot.colorIdx].toUpperCase());
+        canonicalPositions.push({ row, col, ...slot });
       }
     }
   }
@@ -286,6 +642,37 @@ function ensureAllColorsUsed(
   // Find unused colors
   const unusedColors = paletteColors.filter(c => !usedColors.has(c.toUpperCase()));
   if (unusedColors.length === 0) return;
+
+  const assign = (pos: (typeof canonicalPositions)[number], color: string) => {
+    const block = pos.block;
+    block.colors[pos.colorIdx] = color;
+    // Keep both cells of a two-cell unit in sync
+    if (block.span) {
+      tile[pos.row + block.span.dRow][pos.col + block.span.dCol].colors[pos.colorIdx] = color;
+    }
+  };
+
+  if (weights) {
+    const weightOf = new Map(paletteColors.map((c, i) => [c.toUpperCase(), weights[i] ?? 0]));
+    const counts = new Map<string, number>();
+    for (const pos of canonicalPositions) {
+      const key = pos.block.colors[pos.colorIdx].toUpperCase();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    for (const color of unusedColors) {
+      const odds = canonicalPositions.map((pos) => {
+        const key = pos.block.colors[pos.colorIdx].toUpperCase();
+        return counts.get(key)! > 1 ? weightOf.get(key) ?? 0 : 0;
+      });
+      if (!odds.some((w) => w > 0)) return;
+      const pos = canonicalPositions[rng.weighted(odds)];
+      const key = pos.block.colors[pos.colorIdx].toUpperCase();
+      counts.set(key, counts.get(key)! - 1);
+      counts.set(color.toUpperCase(), 1);
+      assign(pos, color);
+    }
+    return;
+  }
   
   // Shuffle canonical positions and assign unused colors
   for (let i = canonicalPositions.length - 1; i > 0; i--) {
@@ -294,8 +681,516 @@ function ensureAllColorsUsed(
   }
   
   for (let i = 0; i < unusedColors.length && i < canonicalPositions.length; i++) {
-    const pos = canonicalPositions[i];
-    tile[pos.row][pos.col].colors[pos.colorIdx] = unusedColors[i];
+    assign(canonicalPositions[i], unusedColors[i]);
+  }
+}
+
+// --- Locked cells ---
+
+const INVERSE_OPS: Record<CellOp, CellOp> = {
+  identity: "identity",
+  mirrorH: "mirrorH",
+  mirrorV: "mirrorV",
+  rotate180: "rotate180",
+  rotateCW: "rotateCCW",
+  rotateCCW: "rotateCW",
+  mirrorDiagTLBR: "mirrorDiagTLBR",
+  mirrorDiagTRBL: "mirrorDiagTRBL",
+};
+
+/** The transform that undoes a symmetry source's transform */
+function inverseTransform(transform: (b: QuiltBlock) => QuiltBlock): (b: QuiltBlock) => QuiltBlock {
+  const op = (Object.keys(CELL_OP_TRANSFORMS) as CellOp[]).find((o) => CELL_OP_TRANSFORMS[o] === transform);
+  return op ? CELL_OP_TRANSFORMS[INVERSE_OPS[op]] : transform;
+}
+
+/** Locked cells inside a tile of this size */
+function tileLocks(locks: Record<string, QuiltBlock> | undefined, tileW: number, tileH: number): Map<string, QuiltBlock> {
+  const inside = new Map<string, QuiltBlock>();
+  for (const [key, block] of Object.entries(locks ?? {})) {
+    const [row, col] = key.split(",").map(Number);
+    if (row >= 0 && row < tileH && col >= 0 && col < tileW) inside.set(key, block);
+  }
+  return inside;
+}
+
+/** Put the locked blocks in place, and for a locked copy the block its
+ *  source must hold. Returns the free cells the locks fix. */
+function pinLocks(tile: QuiltBlock[][], locked: Map<string, QuiltBlock>, symmetryMode: SymmetryMode): Set<string> {
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  const pinned = new Set<string>();
+  for (const [key, block] of locked) {
+    const [row, col] = key.split(",").map(Number);
+    const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+    if (source) {
+      tile[source.srcRow][source.srcCol] = inverseTransform(source.transform)(block);
+      pinned.add(`${source.srcRow},${source.srcCol}`);
+    } else {
+      pinned.add(key);
+    }
+    tile[row][col] = block;
+  }
+  return pinned;
+}
+
+/** Pin the locks, copy every cell made from a pinned cell again so the
+ *  symmetric partners match, and put the exact locked blocks back */
+function lockTile(tile: QuiltBlock[][], locked: Map<string, QuiltBlock>, symmetryMode: SymmetryMode): void {
+  if (locked.size === 0) return;
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  const pinned = pinLocks(tile, locked, symmetryMode);
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+      if (source && pinned.has(`${source.srcRow},${source.srcCol}`)) {
+        tile[row][col] = source.transform(tile[source.srcRow][source.srcCol]);
+      }
+    }
+  }
+  for (const [key, block] of locked) {
+    const [row, col] = key.split(",").map(Number);
+    tile[row][col] = block;
+  }
+}
+
+// --- Value classes ---
+
+/** The block with every patch colour, sub-grids included, passed through `swap` */
+function mapColors(block: QuiltBlock, swap: (color: string) => string): QuiltBlock {
+  const recolor = (b: QuiltBlock): QuiltBlock => ({
+    ...b,
+    colors: b.colors.map(swap),
+    subgrid: b.subgrid?.map((row) => row.map(recolor)),
+  });
+  return recolor(block);
+}
+
+/** The block with each value class replaced by a role from `fill` (roles for
+ *  each class, lightest first), drawn once per class into `swaps` */
+function fillBlock(block: QuiltBlock, fill: string[][], swaps: Map<string, string>, rng: SeededRandom): QuiltBlock {
+  return mapColors(block, (color) => {
+    const roles = fill[valueLevel(color)];
+    if (!roles) return color;
+    if (!swaps.has(color)) swaps.set(color, rng.pick(roles));
+    return swaps.get(color)!;
+  });
+}
+
+/** Fill a tile drawn in value classes. Each free cell draws its roles once,
+ *  and the cells copied from it and the other half of its unit take the same
+ *  ones, so the fill keeps the tile's symmetry. */
+function fillValueClasses(tile: QuiltBlock[][], symmetryMode: SymmetryMode, fill: string[][], rng: SeededRandom): void {
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  // A covered half goes by its anchor, and a copy by the anchor of its source
+  const anchorOf = (row: number, col: number) => {
+    const block = tile[row][col];
+    return block.span && isCoveredCell(block) && tile[row + block.span.dRow]?.[col + block.span.dCol]
+      ? { row: row + block.span.dRow, col: col + block.span.dCol }
+      : { row, col };
+  };
+  const keyOf = (row: number, col: number) => {
+    const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+    const free = source ? anchorOf(source.srcRow, source.srcCol) : { row, col };
+    return `${free.row},${free.col}`;
+  };
+
+  const swapsByCell = new Map<string, Map<string, string>>();
+  const filled = tile.map((tileRow, row) =>
+    tileRow.map((block, col) => {
+      const anchor = anchorOf(row, col);
+      const key = keyOf(anchor.row, anchor.col);
+      if (!swapsByCell.has(key)) swapsByCell.set(key, new Map());
+      return fillBlock(block, fill, swapsByCell.get(key)!, rng);
+    })
+  );
+  filled.forEach((tileRow, row) => (tile[row] = tileRow));
+}
+
+// --- Colour constraints ---
+
+const CONSTRAINT_PASSES = 8;
+const RECOLOR_CANDIDATES = 6;
+
+// A cell the symmetry pass copied from another, in the order it was copied
+interface SymmetryCopy {
+  row: number;
+  col: number;
+  srcRow: number;
+  srcCol: number;
+  transform: (b: QuiltBlock) => QuiltBlock;
+}
+
+// A free cell (with the other half of its unit) and every copy made from it
+interface RecolorGroup {
+  cells: { row: number; col: number }[];
+  copies: SymmetryCopy[];
+  invariant: CellOp[]; // ops the anchor must still look the same under
+}
+
+/** The same block with each of its colours swapped for a random palette
+ *  colour, so shapes, matching patches and sub-grid symmetry survive */
+function substituteColors(block: QuiltBlock, rng: SeededRandom, paletteColors: string[]): QuiltBlock {
+  const swaps = new Map<string, string>();
+  const swap = (color: string) => {
+    const key = color.toUpperCase();
+    if (!swaps.has(key)) swaps.set(key, rng.pick(paletteColors));
+    return swaps.get(key)!;
+  };
+  const recolor = (b: QuiltBlock): QuiltBlock => ({
+    ...b,
+    colors: b.colors.map(swap),
+    subgrid: b.subgrid?.map((row) => row.map(recolor)),
+  });
+  return recolor(block);
+}
+
+function recolorCandidate(block: QuiltBlock, keepInvariant: boolean, rng: SeededRandom, paletteColors: string[]): QuiltBlock {
+  if (block.subgrid || keepInvariant) return substituteColors(block, rng, paletteColors);
+  const colors = randomColors(block.shape, rng, paletteColors);
+  // Shapes made by a mirror transform keep their own number of patches
+  if (colors.length !== block.colors.length) return substituteColors(block, rng, paletteColors);
+  return { ...block, colors };
+}
+
+/** Group the tile's cells by the free cell their colours come from */
+function recolorGroups(tile: QuiltBlock[][], copies: SymmetryCopy[], map: SymmetryCell[][] | null): RecolorGroup[] {
+  const key = (row: number, col: number) => `${row},${col}`;
+  const copyOf = new Map(copies.map((c) => [key(c.row, c.col), c]));
+  const groups = new Map<string, RecolorGroup>();
+
+  // The free cell a cell's colours come from; units are grouped at their anchor
+  const ownerOf = (row: number, col: number): string => {
+    const copy = copyOf.get(key(row, col));
+    if (copy) return ownerOf(copy.srcRow, copy.srcCol);
+    const block = tile[row][col];
+    if (isCoveredCell(block)) {
+      const anchorRow = row + block.span!.dRow;
+      const anchorCol = col + block.span!.dCol;
+      const anchor = tile[anchorRow]?.[anchorCol];
+      if (anchor?.span && anchor.shape === block.shape && !isCoveredCell(anchor) && !copyOf.has(key(anchorRow, anchorCol))) {
+        return key(anchorRow, anchorCol);
+      }
+    }
+    return key(row, col);
+  };
+
+  for (let row = 0; row < tile.length; row++) {
+    for (let col = 0; col < tile[row].length; col++) {
+      if (copyOf.has(key(row, col))) continue;
+      const owner = ownerOf(row, col);
+      if (!groups.has(owner)) {
+        const block = tile[row][col];
+        const stabilizer = map?.[row][col].stabilizer ?? [];
+        const invariant = stabilizer.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](block), block)) ? stabilizer : [];
+        groups.set(owner, { cells: [], copies: [], invariant });
+      }
+      groups.get(owner)!.cells.push({ row, col });
+    }
+  }
+  for (const copy of copies) {
+    groups.get(ownerOf(copy.row, copy.col))!.copies.push(copy);
+  }
+  return [...groups.values()];
+}
+
+/** Give a group the anchor's new colours: the halves of a unit share them,
+ *  and the copies are remade from their sources */
+function applyToGroup(tile: QuiltBlock[][], group: RecolorGroup, colored: QuiltBlock): void {
+  group.cells.forEach(({ row, col }, i) => {
+    tile[row][col] = i === 0 ? colored : { ...tile[row][col], colors: [...colored.colors] };
+  });
+  for (const copy of group.copies) {
+    tile[copy.row][copy.col] = copy.transform(tile[copy.srcRow][copy.srcCol]);
+  }
+}
+
+/** Recolour free cells until the tile keeps to the colour constraints or the
+ *  passes run out. Copies are remade from their sources after every change, so
+ *  symmetric cells stay symmetric; shapes and rotations never change. */
+function enforceConstraints(
+  tile: QuiltBlock[][],
+  copies: SymmetryCopy[],
+  map: SymmetryCell[][] | null,
+  constraints: ColorRules,
+  rng: SeededRandom,
+  paletteColors: string[],
+  pinned: Set<string> = new Set()
+): void {
+  // Locked cells and their copies keep their colours
+  const groups = recolorGroups(tile, copies, map).filter(
+    (group) => !group.cells.some(({ row, col }) => pinned.has(`${row},${col}`))
+  );
+  const tally = new ColorTally(tile, constraints.maxColorShare);
+  const affected = (group: RecolorGroup) => [...group.cells, ...group.copies];
+  const groupCost = (group: RecolorGroup) =>
+    affected(group).reduce((sum, { row, col }) => sum + seamViolations(tile, row, col, constraints), 0) +
+    tally.excess();
+
+  const apply = (group: RecolorGroup, colored: QuiltBlock) => {
+    for (const { row, col } of affected(group)) tally.add(tile[row][col], -1);
+    applyToGroup(tile, group, colored);
+    for (const { row, col } of affected(group)) tally.add(tile[row][col], 1);
+  };
+
+  for (let pass = 0; pass < CONSTRAINT_PASSES; pass++) {
+    const over = tally.over();
+    const broken = groups.filter((group) =>
+      affected(group).some(
+        ({ row, col }) =>
+          seamViolations(tile, row, col, constraints) > 0 ||
+          patchColors(tile[row][col]).some((c) => over.has(c.toUpperCase()))
+      )
+    );
+    if (broken.length === 0) return;
+
+    for (const group of broken) {
+      const { row, col } = group.cells[0];
+      let best = tile[row][col];
+      let bestCost = groupCost(group);
+      for (let i = 0; i < RECOLOR_CANDIDATES && bestCost > 0; i++) {
+        const candidate = recolorCandidate(best, group.invariant.length > 0, rng, paletteColors);
+        if (!group.invariant.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](candidate), candidate))) continue;
+        apply(group, candidate);
+        const cost = groupCost(group);
+        if (cost < bestCost) {
+          best = candidate;
+          bestCost = cost;
+        }
+      }
+      apply(group, best);
+    }
+  }
+}
+
+// --- Exact colour count ---
+
+/** The copies the symmetry mode made in a finished tile: every cell that is
+ *  its source's block under the source's transform */
+function symmetryCopies(tile: QuiltBlock[][], symmetryMode: SymmetryMode): SymmetryCopy[] {
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  const copies: SymmetryCopy[] = [];
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+      if (source && sameBlock(source.transform(tile[source.srcRow][source.srcCol]), tile[row][col])) {
+        copies.push({ row, col, ...source });
+      }
+    }
+  }
+  return copies;
+}
+
+/** The block with the patches numbered in `at` (in patchColors order) given `role` */
+function recolorPatches(block: QuiltBlock, at: number[], role: string): QuiltBlock {
+  let next = 0;
+  const recolor = (b: QuiltBlock): QuiltBlock =>
+    b.subgrid
+      ? { ...b, subgrid: b.subgrid.map((row) => row.map(recolor)) }
+      : { ...b, colors: b.colors.map((c) => (at.includes(next++) ? role : c)) };
+  return recolor(block);
+}
+
+// Most patches of one colour a block hands over at once, short of all of them
+const SWAP_SUBSET_LIMIT = 4;
+
+/** Every set of up to `limit` of the items, smallest first */
+function smallSubsets<T>(items: T[], limit: number): T[][] {
+  let layer: { set: T[]; next: number }[] = [{ set: [], next: 0 }];
+  const subsets: T[][] = [];
+  for (let size = 1; size <= limit; size++) {
+    layer = layer.flatMap(({ set, next }) => items.slice(next).map((item, i) => ({ set: [...set, item], next: next + i + 1 })));
+    subsets.push(...layer.map(({ set }) => set));
+  }
+  return subsets;
+}
+
+/** Ways to hand some of one colour's patches in a block to `role` that leave
+ *  it looking the same under the `invariant` ops: up to SWAP_SUBSET_LIMIT of
+ *  them, or every one. A flying goose's sky stays one colour. */
+function swapOptions(
+  block: QuiltBlock,
+  role: string,
+  invariant: CellOp[]
+): { colored: QuiltBlock; color: string; moved: number }[] {
+  const options: { colored: QuiltBlock; color: string; moved: number }[] = [];
+  const patches = patchColors(block);
+  for (const color of new Set(patches)) {
+    if (color === role) continue;
+    const at = patches.flatMap((c, i) => (c === color ? [i] : []));
+    const subsets =
+      block.shape === ShapeType.FlyingGeese
+        ? [at]
+        : [...smallSubsets(at, Math.min(SWAP_SUBSET_LIMIT, at.length - 1)), at];
+    for (const picked of subsets) {
+      const colored = recolorPatches(block, picked, role);
+      if (!invariant.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](colored), colored))) continue;
+      options.push({ colored, color, moved: picked.length });
+    }
+  }
+  return options;
+}
+
+/** The block cut into the first of `richer` with more patches that can hold
+ *  all its patches plus one of `role` and still look the same under the
+ *  `invariant` ops, or null if none can. A compound cell is the block in
+ *  every child but one, a square of `role`, the middle one first. */
+function cutBlock(
+  block: QuiltBlock,
+  role: string,
+  richer: { shape: ShapeType; patches: number }[],
+  invariant: CellOp[]
+): QuiltBlock | null {
+  const isInvariant = (cut: QuiltBlock) => invariant.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](cut), cut));
+  const tally = (colors: string[]) => colors.reduce((m, c) => m.set(c, (m.get(c) ?? 0) + 1), new Map<string, number>());
+  const before = tally(block.colors);
+  for (const { shape, patches } of richer) {
+    const size = subdivisionSize(shape);
+    if (size > 0) {
+      const middle = (size * size - 1) / 2;
+      const order = [...Array(size * size).keys()].sort((a, b) => Math.abs(a - middle) - Math.abs(b - middle));
+      for (const at of order) {
+        const subgrid = Array.from({ length: size }, (_, r) =>
+          Array.from({ length: size }, (_, c) => (r * size + c === at ? square(role) : { ...block, colors: [...block.colors] }))
+        );
+        const cut = { shape, colors: [], rotation: 0, subgrid };
+        if (isInvariant(cut)) return cut;
+      }
+      continue;
+    }
+    if (patches <= block.colors.length) continue;
+    for (const rotation of [block.rotation, ...[0, 90, 180, 270].filter((r) => r !== block.rotation)]) {
+      for (let at = patches - 1; at >= 0; at--) {
+        const colors = Array.from({ length: patches }, (_, i) => block.colors[i % block.colors.length]);
+        colors[at] = role;
+        const after = tally(colors);
+        if ([...before].some(([color, n]) => (after.get(color) ?? 0) < n)) continue;
+        const cut = { shape, colors, rotation };
+        if (isInvariant(cut)) return cut;
+      }
+    }
+  }
+  return null;
+}
+
+/** Bring every role up to `minPatches` patches in the tile, drawing only on
+ *  `rng`. A group (a free cell, the other half of its unit and every copy of
+ *  it) gives up patches of one colour at a time, mostly from the colours with
+ *  the most to spare, so shapes and symmetry survive. When no colour can
+ *  spare any, a cell is cut into a shape with more patches to make room,
+ *  keeping all the patches it had. A value plan is kept while the role's own
+ *  class has room, and given way to when it hasn't.
+ *  Stops short only when the tile has no room left. */
+function settleExactColors(
+  tile: QuiltBlock[][],
+  copies: SymmetryCopy[],
+  map: SymmetryCell[][] | null,
+  roles: string[],
+  minPatches: number,
+  rng: SeededRandom,
+  pool: ShapeType[],
+  valueFill: string[][] | null,
+  pinned: Set<string> = new Set()
+): void {
+  const groups = recolorGroups(tile, copies, map).filter(
+    (group) => !group.cells.some(({ row, col }) => pinned.has(`${row},${col}`))
+  );
+  const affected = (group: RecolorGroup) => [...group.cells, ...group.copies];
+  // Patches each colour is brought up to, and donors are left with
+  let target = 1;
+  const classOf = new Map(valueFill?.flatMap((members, level) => members.map((role) => [role, level])));
+  const sameClass = (a: string, b: string) => classOf.get(a) === classOf.get(b);
+
+  // Patches of each colour in a group, and in the whole tile; units count at their anchor
+  const groupPatches = (group: RecolorGroup) => {
+    const counts = new Map<string, number>();
+    for (const { row, col } of affected(group)) {
+      if (isCoveredCell(tile[row][col])) continue;
+      for (const color of patchColors(tile[row][col])) counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const totals = new Map<string, number>();
+  for (const group of groups) {
+    for (const [color, n] of groupPatches(group)) totals.set(color, (totals.get(color) ?? 0) + n);
+  }
+  const apply = (group: RecolorGroup, colored: QuiltBlock) => {
+    for (const [color, n] of groupPatches(group)) totals.set(color, totals.get(color)! - n);
+    applyToGroup(tile, group, colored);
+    for (const [color, n] of groupPatches(group)) totals.set(color, (totals.get(color) ?? 0) + n);
+  };
+
+  // Shapes a cell can be cut into, fewest patches first, compound cells last
+  // (counted on a throwaway stream, so the seed's draws are untouched)
+  const patchCount = (shape: ShapeType) =>
+    subdivisionSize(shape) ** 2 || randomColors(shape, new SeededRandom(0), [""]).length;
+  const richer = [...new Set(pool)]
+    .filter((shape) => !isSpanShape(shape))
+    .map((shape) => ({ shape, patches: patchCount(shape) }))
+    .sort((a, b) => Number(subdivisionSize(a.shape) > 0) - Number(subdivisionSize(b.shape) > 0) || a.patches - b.patches);
+
+  // Give the role some patches of one group, leaving their colour at its target
+  const swapsFor = (role: string, inClass: boolean) => {
+    const swaps: { group: RecolorGroup; colored: QuiltBlock; spare: number }[] = [];
+    for (const group of groups) {
+      const { row, col } = group.cells[0];
+      const shown = affected(group).filter((cell) => !isCoveredCell(tile[cell.row][cell.col])).length;
+      for (const { colored, color, moved } of swapOptions(tile[row][col], role, group.invariant)) {
+        const left = (totals.get(color) ?? 0) - moved * shown - target;
+        if (left < 0 || (inClass && !sameClass(color, role))) continue;
+        swaps.push({ group, colored, spare: left + 1 });
+      }
+    }
+    return swaps;
+  };
+
+  // Cut a cell into more patches: its old colours, repeated, and one new,
+  // laid so a cell on a mirror line or rotation centre still looks the same
+  const cutsFor = (role: string, inClass: boolean) => {
+    const cuts: { group: RecolorGroup; colored: QuiltBlock; spare: number }[] = [];
+    for (const group of groups) {
+      const { row, col } = group.cells[0];
+      const block = tile[row][col];
+      if (group.cells.length > 1 || block.span || block.subgrid) continue;
+      if (inClass && !block.colors.some((color) => sameClass(color, role))) continue;
+      const cut = cutBlock(block, role, richer, group.invariant);
+      if (cut) cuts.push({ group, colored: cut, spare: 1 });
+    }
+    return cuts;
+  };
+
+  // Swaps, then cuts, within the role's value class; once the value plan
+  // leaves the class no room, patches of any class will do
+  const steps = [
+    (role: string) => swapsFor(role, true),
+    (role: string) => cutsFor(role, true),
+    ...(valueFill ? [(role: string) => swapsFor(role, false), (role: string) => cutsFor(role, false)] : []),
+  ];
+
+  // Every colour gets a patch before any is topped up to the minimum, so one
+  // colour short of room doesn't leave the others out; a colour with no
+  // option left is passed over
+  for (const pass of minPatches > 1 ? [1, minPatches] : [1]) {
+    target = pass;
+    const stuck = new Set<string>();
+    for (;;) {
+      const role = roles.find((r) => !stuck.has(r) && (totals.get(r) ?? 0) < target);
+      if (!role) break;
+      let options: { group: RecolorGroup; colored: QuiltBlock; spare: number }[] = [];
+      for (const step of steps) {
+        options = step(role);
+        if (options.length > 0) break;
+      }
+      if (options.length === 0) {
+        stuck.add(role);
+        continue;
+      }
+      const { group, colored } = options[rng.weighted(options.map((option) => option.spare))];
+      apply(group, colored);
+    }
   }
 }
 
@@ -307,21 +1202,102 @@ function generateTile(
   rng: SeededRandom,
   pool: ShapeType[],
   paletteColors: string[],
-  exactColors: boolean
+  exactColors: boolean,
+  constraints?: ColorRules,
+  colors: ColorDraws | null = null,
+  locks?: Record<string, QuiltBlock>,
+  valueFill: string[][] | null = null,
+  weights: number[] | null = null
 ): QuiltBlock[][] {
+  // Colours come from the shape stream unless they have draws of their own
+  const colorRngAt = (row: number, col: number) => (colors ? colors.at(row, col) : rng);
+  const colorRng = colors ? colors.shared : rng;
+  const draws = weightedColors(paletteColors, weights);
+
   // First pass: fill everything randomly
-  const tile: QuiltBlock[][] = Array.from({ length: tileH }, () =>
-    Array.from({ length: tileW }, () => randomBlock(rng, pool, paletteColors))
+  const cells: (QuiltBlock | null)[][] = Array.from({ length: tileH }, () =>
+    Array.from({ length: tileW }, () => null)
   );
+  const isCanonical = (row: number, col: number) =>
+    !getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+  const mapped = symmetryMap(symmetryMode, tileW, tileH) !== null;
+
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      if (cells[row][col]) continue; // Covered by a two-cell unit
+      const block = randomBlock(rng, pool, draws, colorRngAt(row, col));
+      if (!block.span) {
+        cells[row][col] = block;
+        continue;
+      }
+
+      // A two-cell unit must fit inside the tile, on free cells, and on the
+      // same side of the symmetry split so its mirror image stays whole. Off
+      // the group-defined modes, a unit beside an odd tile's mirror line or
+      // centre would overlap its own copy, so it is checked copy by copy
+      const pr = row + block.span.dRow;
+      const pc = col + block.span.dCol;
+      const fits =
+        pr < tileH &&
+        pc < tileW &&
+        !cells[pr][pc] &&
+        isCanonical(row, col) === isCanonical(pr, pc) &&
+        (mapped || !isCanonical(row, col) || sourceCopiesStayWhole(tileW, tileH, symmetryMode, row, col, block));
+      if (!fits) {
+        cells[row][col] = splitSpan(block);
+        continue;
+      }
+      cells[row][col] = block;
+      cells[pr][pc] = {
+        ...block,
+        colors: [...block.colors],
+        span: { dRow: -block.span.dRow, dCol: -block.span.dCol },
+      };
+    }
+  }
+  const tile = cells as QuiltBlock[][];
 
   // If exact colors mode, ensure all colors are used in canonical cells BEFORE symmetry
   if (exactColors) {
-    ensureAllColorsUsed(tile, paletteColors, rng, symmetryMode);
+    ensureAllColorsUsed(tile, paletteColors, colorRng, symmetryMode, weights);
   }
 
-  if (symmetryMode === SymmetryMode.None) return tile;
+  // Locked cells are in place before the symmetry pass, and put back after it
+  const locked = tileLocks(locks, tileW, tileH);
+  const pinned = pinLocks(tile, locked, symmetryMode);
+
+  if (symmetryMode === SymmetryMode.None) {
+    if (hasActiveConstraints(constraints)) enforceConstraints(tile, [], null, constraints, colorRng, draws, pinned);
+    if (valueFill) {
+      fillValueClasses(tile, symmetryMode, valueFill, colorRng);
+      lockTile(tile, locked, symmetryMode);
+    }
+    return locked.size > 0 ? resolveSpans(tile) : tile;
+  }
+
+  // Free cells on a mirror line or rotation centre must be symmetric themselves
+  const map = symmetryMap(symmetryMode, tileW, tileH);
+  if (map) {
+    for (let row = 0; row < tileH; row++) {
+      for (let col = 0; col < tileW; col++) {
+        const { source, stabilizer } = map[row][col];
+        const block = tile[row][col];
+        // Two-cell units whose copies would wrap round the tile edge are split
+        // here, so every copy is split alike
+        if (!source && block.span && !isCoveredCell(block) && !unitCopiesStayWhole(map, row, col, block)) {
+          tile[row + block.span.dRow][col + block.span.dCol] = splitSpan(tile[row + block.span.dRow][col + block.span.dCol]);
+          tile[row][col] = splitSpan(block);
+        }
+        if (source || stabilizer.length === 0) continue;
+        if (rng.next() * 100 >= symmetry || pinned.has(`${row},${col}`)) continue;
+        // A replaced two-cell unit leaves its partner to be split by resolveSpans
+        tile[row][col] = invariantBlock(tile[row][col], stabilizer, rng, pool, draws, colorRngAt(row, col));
+      }
+    }
+  }
 
   // Second pass: apply symmetry to non-canonical cells
+  const copies: SymmetryCopy[] = [];
   for (let row = 0; row < tileH; row++) {
     for (let col = 0; col < tileW; col++) {
       const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
@@ -330,76 +1306,967 @@ function generateTile(
       const useSymmetry = rng.next() * 100 < symmetry;
       if (useSymmetry) {
         tile[row][col] = source.transform(tile[source.srcRow][source.srcCol]);
+        copies.push({ row, col, ...source });
       }
     }
   }
 
-  return tile;
+  if (hasActiveConstraints(constraints)) {
+    enforceConstraints(tile, copies, map, constraints, colorRng, draws, pinned);
+  }
+  if (valueFill) fillValueClasses(tile, symmetryMode, valueFill, colorRng);
+  lockTile(tile, locked, symmetryMode);
+
+  return resolveSpans(tile);
 }
 
-// Count unique colors used in a tile
-function countUsedColors(tile: QuiltBlock[][], paletteColors: string[]): number {
-  const used = new Set<string>();
-  const paletteSet = new Set(paletteColors.map(c => c.toUpperCase()));
-  
-  for (const row of tile) {
-    for (const block of row) {
-      for (const color of block.colors) {
-        if (paletteSet.has(color.toUpperCase())) {
-          used.add(color.toUpperCase());
+/** Fill the grid with traditional blocks as the repeat units: either one
+ *  block tiled throughout, or a random block per unit. */
+function generateLibraryGrid(state: AppState, paletteColors: string[]): QuiltBlock[][] {
+  const { gridWidth, gridHeight, blockLibrary } = state;
+  const blocks = blockLibrary.blockIds
+    .map(getBlockById)
+    .filter((b): b is TraditionalBlock => !!b);
+  const size = libraryUnitSize(blockLibrary.blockIds);
+  const rng = new SeededRandom(state.seed);
+  const colorRng = colorDraws(state)?.shared ?? rng;
+
+  // Shared roles (e.g. "background") get the same colour in every block
+  const roleColors = assignRoleColors(collectRoles(blocks), paletteColors, colorRng, activeWeights(state));
+  const units = new Map(blocks.map((b) => [b.id, instantiateBlockInUnit(b, roleColors, size)]));
+
+  const tiled = blockLibrary.arrangement === "tile" ? rng.pick(blocks) : null;
+  const alternate = alternateTile(state, size, size, paletteColors);
+  const repeat = { ...repeatLayout(state, gridHeight, gridWidth), tileW: size, tileH: size };
+  // One pick per unit, made the first time the unit is reached
+  const picks = new Map<string, TraditionalBlock>();
+
+  const grid: QuiltBlock[][] = Array.from({ length: gridHeight }, (_, row) =>
+    Array.from({ length: gridWidth }, (_, col) => {
+      const pos = tilePosition(repeat, row, col);
+      if (alternate && isAlternateTile(pos)) return alternate[pos.row][pos.col];
+      const key = `${pos.tileRow},${pos.tileCol}`;
+      if (!picks.has(key)) picks.set(key, tiled ?? rng.pick(blocks));
+      return units.get(picks.get(key)!.id)![pos.row][pos.col];
+    })
+  );
+
+  return resolveSpans(grid);
+}
+
+// --- Medallion rounds ---
+
+interface RoundColors {
+  main: string;
+  ground: string;
+  corner: string;
+}
+
+function pickRoundColors(rng: SeededRandom, paletteColors: string[]): RoundColors {
+  const main = rng.pick(paletteColors);
+  const others = paletteColors.filter((c) => c !== main);
+  return { main, ground: others.length > 0 ? rng.pick(others) : main, corner: rng.pick(paletteColors) };
+}
+
+function square(color: string): QuiltBlock {
+  return { shape: ShapeType.Square, colors: [color], rotation: 0 };
+}
+
+/** One side of a round, outer edge up (see medallion.ts). The left half is
+ *  laid out and mirrored onto the right, so the side is symmetric about its
+ *  middle; an odd middle column must be symmetric itself. */
+function roundStrip(
+  round: MedallionRound,
+  length: number,
+  colors: RoundColors,
+  rng: SeededRandom,
+  colorRng: SeededRandom,
+  paletteColors: string[]
+): QuiltBlock[][] {
+  const { main, ground } = colors;
+  const { depth } = round;
+  const half = Math.floor(length / 2);
+  const pool = round.shapes.length > 0 ? [...round.shapes] : [ShapeType.Square];
+  const strip: (QuiltBlock | null)[][] = Array.from({ length: depth }, () =>
+    Array.from({ length }, () => null)
+  );
+
+  for (let j = 0; j < depth; j++) {
+    for (let i = 0; i < half; i++) {
+      if (strip[j][i]) continue; // Covered by a two-cell unit
+      switch (round.style) {
+        case RoundStyle.Sawtooth:
+          strip[j][i] = { shape: ShapeType.HST, colors: [main, ground], rotation: 0 };
+          break;
+        case RoundStyle.Squares:
+          strip[j][i] = square((i + j) % 2 === 0 ? main : ground);
+          break;
+        case RoundStyle.FlyingGeese: {
+          if (i + 1 >= half) {
+            strip[j][i] = square(ground);
+            break;
+          }
+          const goose: QuiltBlock = { shape: ShapeType.FlyingGeese, colors: [main, ground, ground], rotation: 0 };
+          strip[j][i] = { ...goose, span: { dRow: 0, dCol: 1 } };
+          strip[j][i + 1] = { ...goose, colors: [...goose.colors], span: { dRow: 0, dCol: -1 } };
+          break;
+        }
+        case RoundStyle.Pieced: {
+          const block = randomBlock(rng, pool, paletteColors, colorRng);
+          if (!block.span) {
+            strip[j][i] = block;
+            break;
+          }
+          // Units must stay inside the round and on this half of the side
+          const pr = j + block.span.dRow;
+          const pc = i + block.span.dCol;
+          if (pr >= depth || pc >= half || strip[pr][pc]) {
+            strip[j][i] = splitSpan(block);
+            break;
+          }
+          strip[j][i] = block;
+          strip[pr][pc] = { ...block, colors: [...block.colors], span: { dRow: -block.span.dRow, dCol: -block.span.dCol } };
+          break;
         }
       }
     }
+
+    if (length % 2 === 1) {
+      strip[j][half] =
+        round.style === RoundStyle.Pieced
+          ? invariantBlock(randomBlock(rng, pool, paletteColors, colorRng), ["mirrorH"], rng, pool, paletteColors, colorRng)
+          : round.style === RoundStyle.Squares && (half + j) % 2 === 0
+            ? square(main)
+            : square(ground);
+    }
+    for (let i = 0; i < half; i++) {
+      strip[j][length - 1 - i] = mirrorH(strip[j][i]!);
+    }
   }
-  return used.size;
+
+  return strip as QuiltBlock[][];
 }
 
-export function generateGrid(state: AppState): QuiltBlock[][] {
+/** The top-left corner square of a round, symmetric about the diagonal from
+ *  the outer corner so it meets both sides alike */
+function roundCorner(
+  round: MedallionRound,
+  colors: RoundColors,
+  rng: SeededRandom,
+  colorRng: SeededRandom,
+  paletteColors: string[]
+): QuiltBlock[][] {
+  if (round.style !== RoundStyle.Pieced) {
+    return Array.from({ length: round.depth }, () => Array.from({ length: round.depth }, () => square(colors.corner)));
+  }
+  const pool = round.shapes.length > 0 ? [...round.shapes] : [ShapeType.Square];
+  const draws = nestedDraws(rng, colorRng);
+  return generateTile(round.depth, round.depth, 100, SymmetryMode.DiagonalTLBR, rng, pool, paletteColors, false, undefined, draws);
+}
+
+/** A centre tile (generated as usual, or a library block) framed by the
+ *  configured rounds, innermost first */
+function generateMedallionGrid(state: AppState, paletteColors: string[]): QuiltBlock[][] {
+  const centre = medallionCentre(state);
+  const { width, height } = medallionSize(state);
+  const rng = new SeededRandom(state.seed);
+  const centreColors = colorDraws(state);
+  // The rounds' colours follow the centre's, drawn as often as their weights
+  const colorRng = centreColors?.shared ?? rng;
+  const weights = activeWeights(state);
+  const draws = weightedColors(paletteColors, weights);
+
+  const useLibrary = state.blockLibrary?.enabled && libraryUnitSize(state.blockLibrary.blockIds) > 0;
+  const centreGrid = useLibrary
+    ? generateLibraryGrid({ ...state, gridWidth: centre.width, gridHeight: centre.height }, paletteColors)
+    : generateTile(
+        centre.width,
+        centre.height,
+        state.symmetry,
+        state.symmetryMode,
+        rng,
+        buildWeightedShapePool(state),
+        paletteColors,
+        state.colorCountMode === "exact",
+        colorRules(state),
+        centreColors,
+        undefined,
+        valueFill(state),
+        weights
+      );
+  // Exact colours are all brought into the centre; the rounds add their own
+  if (!useLibrary && state.colorCountMode === "exact") {
+    settleTile(state, centreGrid, state.symmetryMode, buildWeightedShapePool(state), colorRng);
+  }
+
+  let inset = (width - centre.width) / 2;
+  const grid: QuiltBlock[][] = Array.from({ length: height }, () => new Array<QuiltBlock>(width));
+  centreGrid.forEach((rowBlocks, row) => {
+    rowBlocks.forEach((block, col) => {
+      grid[inset + row][inset + col] = block;
+    });
+  });
+
+  let w = centre.width;
+  let h = centre.height;
+  for (const round of state.medallion.rounds) {
+    const colors = pickRoundColors(colorRng, draws);
+    // Sides of the same length share a strip, so a square medallion turns true
+    const strips = new Map<number, QuiltBlock[][]>();
+    const stripFor = (length: number) => {
+      if (!strips.has(length)) strips.set(length, roundStrip(round, length, colors, rng, colorRng, draws));
+      return strips.get(length)!;
+    };
+    const corner = roundCorner(round, colors, rng, colorRng, draws);
+
+    for (const cell of ringCells(inset, inset, w, h, round.depth)) {
+      const block = cell.corner ? corner[cell.j][cell.i] : stripFor(cell.length)[cell.j][cell.i];
+      grid[cell.row][cell.col] = rotateCW(block, cell.turns);
+    }
+    inset -= round.depth;
+    w += round.depth * 2;
+    h += round.depth * 2;
+  }
+
+  return resolveSpans(grid);
+}
+
+/** A row quilt: each band generates its own tile, from its own shapes and
+ *  seed, and repeats it across the quilt */
+function generateRowGrid(state: AppState, paletteColors: string[]): QuiltBlock[][] {
+  const { gridWidth, symmetry } = state;
+  const exactColors = state.colorCountMode === "exact";
+  const grid: QuiltBlock[][] = [];
+
+  for (const { band } of bandRanges(state.rowQuilt.bands)) {
+    const tileW = Math.max(1, Math.min(band.tileWidth, gridWidth));
+    const rng = new SeededRandom(state.seed + band.seedOffset);
+    const pool = weightedShapePool(band.shapeRatios, () => true);
+    const colors = colorDraws(state, band.seedOffset);
+    const tile = generateTile(
+      tileW,
+      band.height,
+      symmetry,
+      band.symmetryMode,
+      rng,
+      pool,
+      paletteColors,
+      exactColors,
+      colorRules(state),
+      colors,
+      undefined,
+      valueFill(state),
+      activeWeights(state)
+    );
+    // Each band has every colour, so any one of them shows the whole palette
+    if (exactColors) settleTile(state, tile, band.symmetryMode, pool, colors?.shared ?? rng);
+    for (const tileRow of tile) {
+      grid.push(Array.from({ length: gridWidth }, (_, col) => tileRow[col % tileW]));
+    }
+  }
+
+  // Units in a partial tile at the right edge may have lost their partner
+  return resolveSpans(grid);
+}
+
+// --- Wave Function Collapse ---
+
+const WFC_ATTEMPTS = 10;
+
+// Single-cell shapes showing one colour along each side, with the rotations
+// that give distinct blocks (the rest repeat one of these in other colours)
+const WFC_SHAPES: Partial<Record<ShapeType, { slots: number; rotations: number[] }>> = {
+  [ShapeType.Square]: { slots: 1, rotations: [0] },
+  [ShapeType.HST]: { slots: 2, rotations: [0, 90] },
+  [ShapeType.QST]: { slots: 4, rotations: [0] },
+  [ShapeType.DrunkardsPath]: { slots: 2, rotations: [0, 90, 180, 270] },
+  [ShapeType.Snowball]: { slots: 2, rotations: [0] },
+};
+
+/** One key for blocks that look the same (see normalizeBlock); the halves of
+ *  a two-cell unit are told apart by the way their partner lies */
+function blockKey(block: QuiltBlock): string {
+  const b = normalizeBlock(block);
+  const sub = b.subgrid ? `[${b.subgrid.map((row) => row.map(blockKey).join(";")).join("/")}]` : "";
+  const span = b.span ? `|${b.span.dRow},${b.span.dCol}` : "";
+  return `${b.shape}|${b.rotation}|${b.colors.join(",").toUpperCase()}${sub}${span}`;
+}
+
+/** Every distinct block of the pool's WFC shapes in the palette colours. Each
+ *  shape keeps its weight in the pool, shared among its variants. */
+function wfcVariants(pool: ShapeType[], paletteColors: string[]): { variants: QuiltBlock[]; weights: number[] } {
+  const variants: QuiltBlock[] = [];
+  const weights: number[] = [];
+  for (const shape of new Set(pool)) {
+    const spec = WFC_SHAPES[shape];
+    if (!spec) continue;
+    let colorings: string[][] = [[]];
+    for (let slot = 0; slot < spec.slots; slot++) {
+      colorings = colorings.flatMap((colors) => paletteColors.map((c) => [...colors, c]));
+    }
+    const blocks = spec.rotations.flatMap((rotation) => colorings.map((colors) => ({ shape, colors, rotation })));
+    const weight = pool.filter((s) => s === shape).length / blocks.length;
+    for (const block of blocks) {
+      variants.push(block);
+      weights.push(weight);
+    }
+  }
+  return { variants, weights };
+}
+
+// Where cell (row, col) of a w × h grid lands when the whole grid is turned
+// or mirrored by an op
+const GRID_OPS: Record<CellOp, (row: number, col: number, w: number, h: number) => [number, number]> = {
+  identity: (r, c) => [r, c],
+  mirrorH: (r, c, w) => [r, w - 1 - c],
+  mirrorV: (r, c, _w, h) => [h - 1 - r, c],
+  rotate180: (r, c, w, h) => [h - 1 - r, w - 1 - c],
+  rotateCW: (r, c, _w, h) => [c, h - 1 - r],
+  rotateCCW: (r, c, w) => [w - 1 - c, r],
+  mirrorDiagTLBR: (r, c) => [c, r],
+  mirrorDiagTRBL: (r, c, w, h) => [w - 1 - c, h - 1 - r],
+};
+
+function transformGrid(grid: QuiltBlock[][], op: CellOp): QuiltBlock[][] {
+  const h = grid.length;
+  const w = grid[0]?.length ?? 0;
+  const turned = op === "rotateCW" || op === "rotateCCW" || op === "mirrorDiagTLBR" || op === "mirrorDiagTRBL";
+  const out: QuiltBlock[][] = Array.from({ length: turned ? w : h }, () => new Array<QuiltBlock>(turned ? h : w));
+  grid.forEach((row, r) =>
+    row.forEach((block, c) => {
+      const [r2, c2] = GRID_OPS[op](r, c, w, h);
+      out[r2][c2] = CELL_OP_TRANSFORMS[op](block);
+    })
+  );
+  return out;
+}
+
+/** Ops a symmetry mode copies or fixes cells with */
+function symmetryOps(symmetryMode: SymmetryMode, tileW: number, tileH: number): CellOp[] {
+  const map = symmetryMap(symmetryMode, tileW, tileH);
+  if (map) {
+    const ops = map.flat().flatMap((cell) => (cell.source ? [cell.source.op, ...cell.stabilizer] : cell.stabilizer));
+    return [...new Set(ops)];
+  }
+  if (symmetryMode === SymmetryMode.Horizontal) return ["mirrorH"];
+  if (symmetryMode === SymmetryMode.Vertical) return ["mirrorV"];
+  if (symmetryMode === SymmetryMode.Rotational) return ["rotate180"];
+  return [];
+}
+
+/** Variants and adjacencies seen in a sample design. The sample is also read
+ *  turned and mirrored by the symmetry's ops, so every copy the symmetry
+ *  makes of a learned block is a learned block too. */
+function learnedTileSet(sample: QuiltBlock[][], ops: CellOp[]): { variants: QuiltBlock[]; tileSet: WfcTileSet } {
+  const images = [sample];
+  const seen = new Set([sample.map((row) => row.map(blockKey).join(" ")).join("\n")]);
+  for (let i = 0; i < images.length; i++) {
+    for (const op of ops) {
+      const image = transformGrid(images[i], op);
+      const key = image.map((row) => row.map(blockKey).join(" ")).join("\n");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      images.push(image);
+    }
+  }
+
+  const index = new Map<string, number>();
+  const variants: QuiltBlock[] = [];
+  const weights: number[] = [];
+  const across = { h: new Set<string>(), v: new Set<string>() };
+  const idOf = (block: QuiltBlock) => {
+    const key = blockKey(block);
+    if (!index.has(key)) {
+      index.set(key, variants.length);
+      variants.push(block);
+      weights.push(0);
+    }
+    return index.get(key)!;
+  };
+  const ids = images.map((image) => image.map((row) => row.map(idOf)));
+
+  // Each variant is its own socket: two variants may meet where they met in the sample
+  for (const image of ids) {
+    image.forEach((row, r) =>
+      row.forEach((id, c) => {
+        weights[id]++;
+        if (c + 1 < row.length) across.h.add(`${id},${row[c + 1]}`);
+        if (r + 1 < image.length) across.v.add(`${id},${image[r + 1][c]}`);
+      })
+    );
+  }
+  const pairs = (seen: Set<string>) => [...seen].map((key) => key.split(",").map(Number) as [number, number]);
+
+  return {
+    variants,
+    tileSet: {
+      weights,
+      sockets: variants.map((_, id) => [id, id, id, id]),
+      socketCount: variants.length,
+      fits: { h: pairs(across.h), v: pairs(across.v) },
+    },
+  };
+}
+
+/** A tile laid out by wave function collapse (see wfc.ts), or null if there
+ *  is nothing it can place or every attempt hit a contradiction. Blocks come
+ *  from the pool in the palette colours, with seams following the adjacency
+ *  rule, or from the learned sample, meeting only as they met there.
+ *  Symmetric copies are tied to their source cells while collapsing, so the
+ *  seams still match after the symmetry is applied. */
+function generateWfcTile(
+  tileW: number,
+  tileH: number,
+  symmetry: number,
+  symmetryMode: SymmetryMode,
+  rng: SeededRandom,
+  pool: ShapeType[],
+  paletteColors: string[],
+  wfc: WfcConfig,
+  wrap: boolean,
+  locks?: Record<string, QuiltBlock>
+): QuiltBlock[][] | null {
+  let variants: QuiltBlock[];
+  let tileSet: WfcTileSet;
+  if (wfc.adjacency === "learned") {
+    if (!wfc.sample?.length || !wfc.sample[0].length) return null;
+    ({ variants, tileSet } = learnedTileSet(wfc.sample, symmetryOps(symmetryMode, tileW, tileH)));
+  } else {
+    const pieces = wfcVariants(pool, paletteColors);
+    variants = pieces.variants;
+    // Sockets are palette colours; declared pairs may meet either way round
+    const colorIndex = new Map(paletteColors.map((c, i) => [c.toUpperCase(), i]));
+    const pairs: [number, number][] =
+      wfc.adjacency === "match"
+        ? paletteColors.map((_, i) => [i, i])
+        : wfc.pairs.flatMap(([a, b]): [number, number][] => [[a, b], [b, a]]);
+    const fits = pairs.filter(([a, b]) => a < paletteColors.length && b < paletteColors.length);
+    tileSet = {
+      weights: pieces.weights,
+      sockets: variants.map((v) => sideColors(v).map((c) => colorIndex.get(c.toUpperCase()) ?? 0)),
+      socketCount: paletteColors.length,
+      fits: { h: fits, v: fits },
+    };
+  }
+  if (variants.length === 0) return null;
+
+  const index = new Map(variants.map((v, i) => [blockKey(v), i]));
+  const views = new Map<(b: QuiltBlock) => QuiltBlock, Int32Array>();
+  const viewOf = (transform: (b: QuiltBlock) => QuiltBlock) => {
+    if (!views.has(transform)) {
+      views.set(transform, Int32Array.from(variants, (v) => index.get(blockKey(transform(v))) ?? -1));
+    }
+    return views.get(transform)!;
+  };
+
+  // Copies show their source through its transform; cells on a mirror line
+  // or rotation centre only take blocks that look the same under it
+  const map = symmetryMap(symmetryMode, tileW, tileH);
+  const locked = tileLocks(locks, tileW, tileH);
+  const cells: WfcCell[] = [];
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      const cell: WfcCell = { root: row * tileW + col, view: null };
+      // A locked cell can only show its block; a lock no variant matches
+      // leaves the tile to the random generator
+      const lock = locked.get(`${row},${col}`);
+      const lockKey = lock && blockKey(lock);
+      const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+      const stabilizer = map?.[row][col].stabilizer ?? [];
+      if (source && rng.next() * 100 < symmetry) {
+        cell.root = source.srcRow * tileW + source.srcCol;
+        cell.view = viewOf(source.transform);
+      } else if (!source && stabilizer.length > 0 && rng.next() * 100 < symmetry) {
+        const fixed = stabilizer.map((op) => viewOf(CELL_OP_TRANSFORMS[op]));
+        cell.allow = (v) => fixed.every((view) => view[v] === v);
+      }
+      if (lockKey) {
+        const allow = cell.allow;
+        cell.allow = (v) => blockKey(variants[v]) === lockKey && (!allow || allow(v));
+      }
+      cells.push(cell);
+    }
+  }
+
+  const solved = solveWfc(tileSet, tileW, tileH, cells, wrap, rng, WFC_ATTEMPTS);
+  if (!solved) return null;
+  const tile = Array.from({ length: tileH }, (_, row) =>
+    Array.from({ length: tileW }, (_, col) => {
+      const block = variants[solved[row * tileW + col]];
+      return { ...block, colors: [...block.colors] };
+    })
+  );
+  // Learned units can be cut off at the tile edge
+  return resolveSpans(tile);
+}
+
+// --- Alternate blocks ---
+
+// Seeds the pieced alternate apart from the main tile, so it isn't a copy of it
+const ALTERNATE_SEED_OFFSET = 1000;
+
+/** The second tile of an alternate-block setting (same size as the main
+ *  tile, so sashing is unchanged), or null when the main tile repeats alone */
+function alternateTile(
+  state: AppState,
+  tileW: number,
+  tileH: number,
+  paletteColors: string[]
+): QuiltBlock[][] | null {
+  const alternate = state.alternateBlock;
+  if (!alternate?.enabled) return null;
+
+  if (alternate.kind === "plain") {
+    const color = alternate.color || paletteColors[0];
+    return Array.from({ length: tileH }, () => Array.from({ length: tileW }, () => square(color)));
+  }
+
+  const rng = new SeededRandom(state.seed + ALTERNATE_SEED_OFFSET);
+  const pool = alternate.shapes.length > 0 ? [...alternate.shapes] : [ShapeType.Square];
+  const colors = colorDraws(state, ALTERNATE_SEED_OFFSET);
+  return generateTile(
+    tileW,
+    tileH,
+    state.symmetry,
+    state.symmetryMode,
+    rng,
+    pool,
+    paletteColors,
+    false,
+    colorRules(state),
+    colors,
+    undefined,
+    valueFill(state),
+    activeWeights(state)
+  );
+}
+
+// --- Breeding ---
+
+/** The same block with its colours, taken in patch order, replaced by the
+ *  donor's, so patches that matched in the block still match */
+function takeColors(block: QuiltBlock, donor: QuiltBlock): QuiltBlock {
+  const donated = patchColors(donor);
+  const swaps = new Map<string, string>();
+  const swap = (color: string) => {
+    const key = color.toUpperCase();
+    if (!swaps.has(key)) swaps.set(key, donated[swaps.size % donated.length] ?? color);
+    return swaps.get(key)!;
+  };
+  const recolor = (b: QuiltBlock): QuiltBlock => ({
+    ...b,
+    colors: b.colors.map(swap),
+    subgrid: b.subgrid?.map((row) => row.map(recolor)),
+  });
+  return recolor(block);
+}
+
+/** Remake the cells the symmetry copies in every parent from their sources in
+ *  the child, so symmetry the parents share survives the crossover */
+function keepSharedSymmetry(child: QuiltBlock[][], parents: QuiltBlock[][][], symmetryMode: SymmetryMode): void {
+  const tileH = child.length;
+  const tileW = child[0]?.length ?? 0;
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      const source = getSymmetrySource(row, col, tileW, tileH, symmetryMode);
+      if (!source) continue;
+      const copied = parents.every((p) => sameBlock(p[row][col], source.transform(p[source.srcRow][source.srcCol])));
+      if (copied) child[row][col] = source.transform(child[source.srcRow][source.srcCol]);
+    }
+  }
+}
+
+/** Replace `rate`% of the free cells at random. Cells copied from a replaced
+ *  cell are copied again, and cells on a mirror line stay symmetric. */
+function mutateTile(tile: QuiltBlock[][], state: AppState, rate: number, rng: SeededRandom, paletteColors: string[]): void {
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  const pool = buildWeightedShapePool(state);
+  const map = symmetryMap(state.symmetryMode, tileW, tileH);
+  const before = tile.map((row) => [...row]);
+  const mutated = new Set<string>();
+
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      if (getSymmetrySource(row, col, tileW, tileH, state.symmetryMode)) continue;
+      if (rng.next() * 100 >= rate) continue;
+      // A replaced unit half leaves its partner to be split by resolveSpans
+      let block = randomBlock(rng, pool, paletteColors);
+      if (block.span) block = splitSpan(block);
+      const stabilizer = map?.[row][col].stabilizer ?? [];
+      const old = tile[row][col];
+      if (stabilizer.length > 0 && stabilizer.every((op) => sameBlock(CELL_OP_TRANSFORMS[op](old), old))) {
+        block = invariantBlock(block, stabilizer, rng, pool, paletteColors);
+      }
+      tile[row][col] = block;
+      mutated.add(`${row},${col}`);
+    }
+  }
+
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      const source = getSymmetrySource(row, col, tileW, tileH, state.symmetryMode);
+      if (!source || !mutated.has(`${source.srcRow},${source.srcCol}`)) continue;
+      if (sameBlock(before[row][col], source.transform(before[source.srcRow][source.srcCol]))) {
+        tile[row][col] = source.transform(tile[source.srcRow][source.srcCol]);
+      }
+    }
+  }
+}
+
+/** A child of two repeat tiles of the same size. Quadrants come whole from
+ *  either parent, or every cell takes its shape from one parent and its
+ *  colours from the same cell of the other; then a few cells mutate. */
+export function breedTiles(state: AppState, first: QuiltBlock[][], second: QuiltBlock[][], seed: number): QuiltBlock[][] {
+  const rng = new SeededRandom(seed);
+  const paletteColors = activePaletteColors(state);
+  const tileH = first.length;
+  const tileW = first[0]?.length ?? 0;
+  let child: QuiltBlock[][];
+
+  if (state.breeding.crossover === "quadrants") {
+    const picks = [0, 1, 2, 3].map(() => (rng.next() < 0.5 ? first : second));
+    const halfW = Math.ceil(tileW / 2);
+    const halfH = Math.ceil(tileH / 2);
+    child = Array.from({ length: tileH }, (_, row) =>
+      Array.from({ length: tileW }, (_, col) => picks[(row < halfH ? 0 : 2) + (col < halfW ? 0 : 1)][row][col])
+    );
+  } else {
+    const [shapes, colors] = rng.next() < 0.5 ? [first, second] : [second, first];
+    child = shapes.map((row, r) => row.map((block, c) => takeColors(block, colors[r][c])));
+    // Both halves of a unit take the colours given to its anchor
+    child.forEach((row, r) =>
+      row.forEach((block, c) => {
+        if (!isCoveredCell(block)) return;
+        const anchor = child[r + block.span!.dRow]?.[c + block.span!.dCol];
+        if (anchor?.shape === block.shape) row[c] = { ...block, colors: [...anchor.colors] };
+      })
+    );
+    keepSharedSymmetry(child, [shapes, colors], state.symmetryMode);
+  }
+
+  mutateTile(child, state, state.breeding.mutationRate, rng, paletteColors);
+  // Mutations in a value-mapped design come out in value classes
+  const fill = valueFill(state);
+  if (fill) fillValueClasses(child, state.symmetryMode, fill, rng);
+  return resolveSpans(child);
+}
+
+function activePalette(state: AppState): string[] {
+  const palettes = getAllPalettes(state.customPalettes);
+  return palettes[state.paletteIndex % palettes.length].colors;
+}
+
+/** How often each colour tiles are drawn in comes up (a value class as often
+ *  as its roles together), or null when the palette gives them no weights */
+function activeWeights(state: AppState): number[] | null {
   const palettes = getAllPalettes(state.customPalettes);
   const palette = palettes[state.paletteIndex % palettes.length];
-  const colorCount = Math.max(1, Math.min(state.paletteColorCount, palette.colors.length));
-  const paletteColors = palette.colors.slice(0, colorCount);
+  if (!palette.weights) return null;
+  const weights = paletteWeights(palette, activeRoles(state).length);
+  const fill = valueFill(state);
+  return fill ? fill.map((roles) => roles.reduce((sum, role) => sum + weights[roleSlot(role)], 0)) : weights;
+}
+
+/** Roles of the palette slots in use; the grid holds these, not colours */
+function activeRoles(state: AppState): string[] {
+  const colorCount = Math.max(1, Math.min(state.paletteColorCount, activePalette(state).length));
+  return Array.from({ length: colorCount }, (_, slot) => roleColor(slot));
+}
+
+/** Roles for each value class, lightest first, or null unless the design is value-mapped */
+function valueFill(state: AppState): string[][] | null {
+  if (!state.valueMap?.enabled) return null;
+  return valueClasses(state).map((slots) => slots.map(roleColor));
+}
+
+/** What tiles are drawn in: the palette's roles, or its value classes */
+function activePaletteColors(state: AppState): string[] {
+  const fill = valueFill(state);
+  return fill ? fill.map((_, level) => valueColor(level)) : activeRoles(state);
+}
+
+function colorRules(state: AppState): ColorRules {
+  const palette = activePalette(state);
+  // A value class is judged by its middle colour
+  const fill = valueFill(state);
+  const hexOf = (color: string): string => {
+    const roles = fill?.[valueLevel(color)];
+    return resolveColor(roles ? roles[Math.floor(roles.length / 2)] : color, palette);
+  };
+  return { ...state.constraints, hexOf };
+}
+
+function repeatSize(state: AppState): { tileW: number; tileH: number } {
+  const { gridWidth, gridHeight, repeatWidth, repeatHeight } = state;
+  return {
+    tileW: repeatWidth > 0 ? Math.min(repeatWidth, gridWidth) : gridWidth,
+    tileH: repeatHeight > 0 ? Math.min(repeatHeight, gridHeight) : gridHeight,
+  };
+}
+
+/** The repeat tile the seed makes */
+function seedTile(state: AppState, paletteColors: string[], tileW: number, tileH: number): QuiltBlock[][] {
   const pool = buildWeightedShapePool(state);
-  const { gridWidth, gridHeight, symmetry, symmetryMode, repeatWidth, repeatHeight } = state;
+  const { gridWidth, gridHeight, symmetry, symmetryMode } = state;
+  const fill = valueFill(state);
+  const weights = activeWeights(state);
   const exactColors = state.colorCountMode === "exact";
 
-  const tileW = repeatWidth > 0 ? Math.min(repeatWidth, gridWidth) : gridWidth;
-  const tileH = repeatHeight > 0 ? Math.min(repeatHeight, gridHeight) : gridHeight;
+  // A straight repeat puts the tile's opposite edges together; a tile the
+  // size of the quilt has no copies to meet
+  const wrap =
+    (state.repeatOffset ?? RepeatOffset.None) === RepeatOffset.None && (tileW < gridWidth || tileH < gridHeight);
 
-  // For exact colors mode, retry with different seeds until all colors are used
-  const maxAttempts = exactColors ? 100 : 1;
-  let bestTile: QuiltBlock[][] | null = null;
-  let bestColorCount = 0;
-  
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const rng = new SeededRandom(state.seed + attempt);
-    const tile = generateTile(tileW, tileH, symmetry, symmetryMode, rng, pool, paletteColors, exactColors);
-    
-    if (!exactColors) {
-      bestTile = tile;
-      break;
-    }
-    
-    const usedCount = countUsedColors(tile, paletteColors);
-    
-    if (usedCount >= colorCount) {
-      // Found a tile that uses all colors
-      bestTile = tile;
-      break;
-    }
-    
-    // Keep track of best attempt in case we can't find a perfect one
-    if (usedCount > bestColorCount) {
-      bestColorCount = usedCount;
-      bestTile = tile;
-    }
-  }
-
-  const tile = bestTile!;
+  const colors = colorDraws(state);
+  const rng = new SeededRandom(state.seed);
+  // WFC falls back to random cells when it can't place a tile. It picks
+  // shapes and colours together, from the shape stream.
+  const wfcTile =
+    state.generator === Generator.Wfc &&
+    generateWfcTile(tileW, tileH, symmetry, symmetryMode, rng, pool, paletteColors, state.wfc, wrap, state.locks);
+  if (wfcTile && fill) fillValueClasses(wfcTile, symmetryMode, fill, colors?.shared ?? rng);
+  const tile =
+    wfcTile ||
+    generateTile(tileW, tileH, symmetry, symmetryMode, rng, pool, paletteColors, exactColors, colorRules(state), colors, state.locks, fill, weights);
+
+  // Exact colours are made to fit in the one tile the seed gives; they come
+  // before a WFC tile's adjacency rule
+  if (exactColors) settleTile(state, tile, symmetryMode, pool, colors?.shared ?? rng, state.locks);
+  return tile;
+}
+
+/** Bring every colour of the palette into a tile made in exact colours mode,
+ *  as far as it has room; locked cells stay as they are */
+function settleTile(
+  state: AppState,
+  tile: QuiltBlock[][],
+  symmetryMode: SymmetryMode,
+  pool: ShapeType[],
+  rng: SeededRandom,
+  locks?: Record<string, QuiltBlock>
+): void {
+  const tileH = tile.length;
+  const tileW = tile[0]?.length ?? 0;
+  // Exact colours counts the palette's roles, also once value classes are filled
+  const roles = activeRoles(state);
+  const locked = new Set(tileLocks(locks, tileW, tileH).keys());
+  const copies = symmetryCopies(tile, symmetryMode);
+  const map = symmetryMap(symmetryMode, tileW, tileH);
+  settleExactColors(tile, copies, map, roles, state.minColorPatches ?? 1, rng, pool, valueFill(state), locked);
+}
+
+/** Whether exact colours mode can bring every colour into the design; named
+ *  blocks keep to their own roles, so a library grid or centre can't */
+export function fitsExactColors(state: AppState): boolean {
+  const library = state.blockLibrary?.enabled && libraryUnitSize(state.blockLibrary.blockIds) > 0;
+  const rows = !state.medallion?.enabled && state.rowQuilt?.enabled && state.rowQuilt.bands.length > 0;
+  return !library || rows;
+}
+
+/** Whether the grid is one tile repeated, so generations can be bred */
+export function hasRepeatTile(state: AppState): boolean {
+  return (
+    !state.medallion?.enabled &&
+    !(state.rowQuilt?.enabled && state.rowQuilt.bands.length > 0) &&
+    !(state.blockLibrary?.enabled && libraryUnitSize(state.blockLibrary.blockIds) > 0)
+  );
+}
+
+/** The repeat tile behind the grid: the bred tile while it still fits the
+ *  repeat size, else the one the seed makes */
+export function repeatTile(state: AppState): QuiltBlock[][] {
+  const { tileW, tileH } = repeatSize(state);
+  const bred = state.bredTile;
+  if (bred && bred.length === tileH && bred[0]?.length === tileW) {
+    const locked = tileLocks(state.locks, tileW, tileH);
+    if (locked.size === 0) return bred;
+    const tile = bred.map((row) => [...row]);
+    lockTile(tile, locked, state.symmetryMode);
+    return resolveSpans(tile);
+  }
+  return seedTile(state, activePaletteColors(state), tileW, tileH);
+}
+
+// --- Recolouring the whole grid ---
+
+/** Whether a grid cell shows a locked cell of the main repeat tile */
+function lockedCells(state: AppState, rows: number, cols: number): (row: number, col: number) => boolean {
+  if (!hasRepeatTile(state) || Object.keys(state.locks).length === 0) return () => false;
+  const repeat = repeatLayout(state, rows, cols);
+  return (row, col) => {
+    const pos = tilePosition(repeat, row, col);
+    if (state.alternateBlock?.enabled && isAlternateTile(pos)) return false;
+    return !!state.locks[`${pos.row},${pos.col}`];
+  };
+}
+
+/** The grid with each covered half taking its anchor's colours again */
+function matchCoveredHalves(grid: QuiltBlock[][]): QuiltBlock[][] {
+  return grid.map((gridRow, row) =>
+    gridRow.map((block, col) => {
+      if (!block.span || !isCoveredCell(block)) return block;
+      const anchor = grid[row + block.span.dRow]?.[col + block.span.dCol];
+      return anchor ? { ...block, colors: [...anchor.colors] } : block;
+    })
+  );
+}
+
+// --- Scrappy ---
+
+const SCRAPPY_SEED_OFFSET = 4000;
+
+/** A scrappy copy of the tile's roles: the palette shuffled, or with
+ *  `perTile` colours, every role moved onto one of that many drawn at random,
+ *  lighter roles onto lighter ones. A value-mapped design shuffles each
+ *  value class within itself. */
+function scrappySwaps(state: AppState, rng: SeededRandom): Map<string, string> {
+  const order = slotsByLightness(state);
+  const groups = state.valueMap?.enabled ? valueClasses(state) : [order];
+  const perTile = state.scrappy.colorsPerTile;
+  const swaps = new Map<string, string>();
+  for (const group of groups) {
+    const slots = order.filter((slot) => group.includes(slot));
+    const drawn = rng.shuffle([...slots]);
+    if (perTile <= 0 || perTile >= slots.length) {
+      slots.forEach((slot, i) => swaps.set(roleColor(slot), roleColor(drawn[i])));
+      continue;
+    }
+    const kept = order.filter((slot) => drawn.slice(0, perTile).includes(slot));
+    slots.forEach((slot, rank) => {
+      swaps.set(roleColor(slot), roleColor(kept[Math.floor((rank * perTile) / slots.length)]));
+    });
+  }
+  return swaps;
+}
+
+/** Every repeat of the main tile with colours of its own: shapes stay, and
+ *  each repeat swaps the roles its own way, so patches that matched in the
+ *  tile still match. Alternate blocks and locked cells keep their colours. */
+function applyScrappy(state: AppState, grid: QuiltBlock[][]): QuiltBlock[][] {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const repeat = repeatLayout(state, rows, cols);
+  const isLocked = lockedCells(state, rows, cols);
+  const seed = state.colorSeed ?? state.seed;
+  const instances = new Map<string, Map<string, string>>();
+
+  const recolored = grid.map((gridRow, row) =>
+    gridRow.map((block, col) => {
+      const pos = tilePosition(repeat, row, col);
+      if (isCoveredCell(block) || isLocked(row, col)) return block;
+      if (state.alternateBlock?.enabled && isAlternateTile(pos)) return block;
+      const key = `${pos.tileRow},${pos.tileCol}`;
+      if (!instances.has(key)) {
+        const rng = new SeededRandom(mixSeed(seed, SCRAPPY_SEED_OFFSET, pos.tileRow, pos.tileCol));
+        instances.set(key, scrappySwaps(state, rng));
+      }
+      const swaps = instances.get(key)!;
+      return mapColors(block, (color) => swaps.get(color) ?? color);
+    })
+  );
+  return matchCoveredHalves(recolored);
+}
+
+// --- Ombré ---
+
+const GRADIENT_SEED_OFFSET = 3000;
+
+/** For each role, the roles it may become along the gradient, in gradient
+ *  order: the whole palette, or in a value-mapped design its value class */
+function gradientRuns(state: AppState): Map<string, string[]> {
+  const order = state.gradient.order === "lightness" ? slotsByLightness(state) : activeRoles(state).map((_, slot) => slot);
+  const groups = state.valueMap?.enabled ? valueClasses(state) : [order];
+  const runs = new Map<string, string[]>();
+  for (const group of groups) {
+    const run = order.filter((slot) => group.includes(slot)).map(roleColor);
+    for (const role of run) runs.set(role, run);
+  }
+  return runs;
+}
+
+/** Redraw every cell's colours by its place along the gradient. Shapes stay
+ *  put; the different roles in a block become different colours where the
+ *  run has enough, both halves of a unit match, and locked cells keep theirs. */
+function applyGradient(state: AppState, grid: QuiltBlock[][]): QuiltBlock[][] {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const runs = gradientRuns(state);
+  const { kind, spread } = state.gradient;
+  const seed = state.colorSeed ?? state.seed;
+  const isLocked = lockedCells(state, rows, cols);
+
+  const shade = (block: QuiltBlock, row: number, col: number) => {
+    const rng = new SeededRandom(mixSeed(seed, GRADIENT_SEED_OFFSET, row, col));
+    const t = gradientPosition(kind, row, col, rows, cols);
+    const swaps = new Map<string, string>();
+    const taken = new Set<string>();
+    return mapColors(block, (color) => {
+      const run = runs.get(color);
+      if (!run) return color;
+      if (!swaps.has(color)) {
+        const weights = gradientWeights(run.length, t, spread);
+        const free = weights.map((w, k) => (taken.has(run[k]) ? 0 : w));
+        const role = run[rng.weighted(free.some((w) => w > 0) ? free : weights)];
+        swaps.set(color, role);
+        taken.add(role);
+      }
+      return swaps.get(color)!;
+    });
+  };
+
+  const shaded = grid.map((gridRow, row) =>
+    gridRow.map((block, col) => (isCoveredCell(block) || isLocked(row, col) ? block : shade(block, row, col)))
+  );
+  return matchCoveredHalves(shaded);
+}
+
+// Seed offset for the value classes still left once the tiles are filled
+const VALUE_FILL_SEED_OFFSET = 2000;
+
+export function generateGrid(state: AppState): QuiltBlock[][] {
+  let grid = generateCells(state);
+  const fill = valueFill(state);
+  if (fill) {
+    // Medallion rounds and named blocks are still in value classes: each
+    // class takes one role across the quilt
+    const rng = new SeededRandom(mixSeed(state.colorSeed ?? state.seed, VALUE_FILL_SEED_OFFSET));
+    const swaps = new Map<string, string>();
+    grid = grid.map((row) => row.map((block) => fillBlock(block, fill, swaps, rng)));
+  }
+  if (state.scrappy?.enabled && hasRepeatTile(state)) grid = applyScrappy(state, grid);
+  if (state.gradient && state.gradient.kind !== "none") grid = applyGradient(state, grid);
+  return grid;
+}
+
+function generateCells(state: AppState): QuiltBlock[][] {
+  const paletteColors = activePaletteColors(state);
+
+  if (state.medallion?.enabled) {
+    return generateMedallionGrid(state, paletteColors);
+  }
+
+  if (state.rowQuilt?.enabled && state.rowQuilt.bands.length > 0) {
+    return generateRowGrid(state, paletteColors);
+  }
+
+  if (state.blockLibrary?.enabled && libraryUnitSize(state.blockLibrary.blockIds) > 0) {
+    return generateLibraryGrid(state, paletteColors);
+  }
+
+  const { gridWidth, gridHeight } = state;
+  const { tileW, tileH } = repeatSize(state);
+  const tile = repeatTile(state);
+  const alternate = alternateTile(state, tileW, tileH, paletteColors);
   
+  const repeat = repeatLayout(state, gridHeight, gridWidth);
   const grid: QuiltBlock[][] = Array.from({ length: gridHeight }, (_, row) =>
-    Array.from({ length: gridWidth }, (_, col) => tile[row % tileH][col % tileW])
+    Array.from({ length: gridWidth }, (_, col) => {
+      const pos = tilePosition(repeat, row, col);
+      return (alternate && isAlternateTile(pos) ? alternate : tile)[pos.row][pos.col];
+    })
   );
 
-  return grid;
+  // Units in a partial tile at the grid edge may have lost their partner
+  return resolveSpans(grid);
 }
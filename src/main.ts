@@ -7,13 +7,24 @@ import "./styles/share-modal.css";
 import "./styles/community.css";
 import "./styles/editor.css";
 import { Store, defaultState } from "./state";
-import { generateGrid } from "./layout";
+import { fitsExactColors, generateGrid, hasRepeatTile, repeatTile } from "./layout";
 import { simplifyGrid } from "./simplify";
-import { render, renderSvg, renderToCanvas } from "./renderer";
+import { type GridGeometry, cellAtPoint, drawLockMarkers, render, renderSvg, renderToCanvas } from "./renderer";
 import { bindUI } from "./ui";
-import type { Palette } from "./types";
-import { getAllPalettes, BASE_PALETTES } from "./palette";
-import { preloadFabricSwatches, setOnFabricLoaded, type ColorToSwatchMap } from "./shapes";
+import { type AppState, type Palette, type QuiltBlock, type HexCell, Generator, HexFill, Tessellation, isCoveredCell } from "./types";
+import {
+  getAllPalettes,
+  BASE_PALETTES,
+  recolorPalette,
+  recoloredSlot,
+  resolveColor,
+  resolveGrid,
+  resolveHexGrid,
+  roleColor,
+  roleSlot,
+  sanitizeWeights,
+} from "./palette";
+import { preloadFabricSwatches, setOnFabricLoaded, getBlockFootprint, type ColorToSwatchMap } from "./shapes";
 import { embedInPng, embedInSvg, loadCartridgeFromFile } from "./cartridge";
 import { generateName } from "./generations";
 import { addSpriteSheet } from "./spritesheet";
@@ -23,11 +34,26 @@ import {
   createEmptyManualState, 
   generateFromPrimary, 
   createManualEditorOverlay,
+  stampBlock,
   type ManualEditorState 
 } from "./manual-editor";
+import { BLOCK_LIBRARY, getBlockById, libraryUnitSize } from "./blocks";
+import { generateHexGrid, hexPieceCounts } from "./hex";
+import { renderHex, renderHexSvg, renderHexToCanvas, renderEppTemplate } from "./hex-renderer";
+import {
+  buildOnPointLayout,
+  cornerTriangleCutSquare,
+  resolveSettingColor,
+  sideTriangleCutSquare,
+} from "./on-point";
+import { bandRanges } from "./row-quilt";
+import { isAlternateTile, repeatLayout, tilePosition, type RepeatLayout } from "./repeat";
 import { initCommunityView, onCommunityEnter, onCommunityLeave } from "./community";
 import type { SharedPalette, SharedDesign } from "./api-client";
 import { initShareDesignModal, openShareDesignModal } from "./ui/share-design";
+import { initRecolorPanel, syncRecolorPanel } from "./ui/recolor";
+import { patchColors } from "./constraints";
+import { valueClasses, valueGrey } from "./value-map";
 
 // Initialize Vercel Analytics
 inject();
@@ -35,7 +61,10 @@ inject();
 // Track current user for cloud sync
 let currentUser: User | null = null;
 
-function buildColorMap(state: typeof store extends { get: () => infer S } ? S : never): ColorToSwatchMap {
+function buildColorMap(
+  state: typeof store extends { get: () => infer S } ? S : never,
+  valuePreview = false
+): ColorToSwatchMap {
   const palettes = getAllPalettes(state.customPalettes);
   const palette = palettes[state.paletteIndex % palettes.length];
   const swatches = palette.swatches || palette.colors;
@@ -46,6 +75,18 @@ function buildColorMap(state: typeof store extends { get: () => infer S } ? S :
     const swatch = swatches[idx] ?? color;
     map.set(color.toUpperCase(), swatch);
   });
+  // Palette roles take the swatch of the slot the recolour gives them
+  const roles = recolorPalette(palette, state.recolor);
+  roles.colors.forEach((color, idx) => map.set(roleColor(idx), roles.swatches?.[idx] ?? color));
+
+  // The canvas's value preview draws each role in the grey of its slot's value class
+  if (valuePreview) {
+    const classes = valueClasses(state);
+    palette.colors.forEach((_, role) => {
+      const level = classes.findIndex((slots) => slots.includes(recoloredSlot(state.recolor, role)));
+      if (level >= 0) map.set(roleColor(role), valueGrey(level, classes.length));
+    });
+  }
   
   // Preload any fabric images
   preloadFabricSwatches(swatches);
@@ -57,6 +98,14 @@ const store = new Store(defaultState());
 const canvas = document.getElementById("quilt-canvas") as HTMLCanvasElement;
 const canvasWrapper = canvas.parentElement as HTMLElement;
 let currentGrid = generateGrid(store.get());
+let currentHexGrid: HexCell[][] = [];
+// Where the last random-mode render put the cells (null when they can't be clicked)
+let currentGeometry: GridGeometry | null = null;
+
+// Hexagons are an auto-generation layout; manual editing stays on squares
+function isHexMode(): boolean {
+  return currentMode === "random" && store.get().tessellation === Tessellation.Hex;
+}
 
 // --- Mode management (random vs manual) ---
 type EditorMode = "random" | "manual";
@@ -228,6 +277,9 @@ function setMode(mode: EditorMode) {
     setupManualOverlay();
     showManualOverlays();
     redrawManual();
+    // Hand-made designs have nothing to recolour
+    syncRecolorPanel();
+    syncMissingColors();
   }
   
   // Update tab buttons
@@ -252,12 +304,14 @@ function redrawManual() {
     ...state,
     gridWidth: manualState.repeatWidth,
     gridHeight: manualState.repeatHeight,
-    // Disable borders for manual mode for now
+    // Disable borders and on-point setting for manual mode for now
+    onPoint: false,
     outerBorder: { lineCount: 0, colors: [], widthFraction: 1 },
     sashingBorder: { lineCount: 0, colors: [], widthFraction: 1 },
   };
   
   render(canvas, currentGrid, manualRenderState, colorMap);
+  currentGeometry = null;
   updateOverlayPositions();
 }
 
@@ -277,6 +331,7 @@ function loadCustomPalettes(): Palette[] {
           .slice(0, 6),
         // Preserve swatches (may contain fabric data URLs)
         swatches: Array.isArray(entry.swatches) ? entry.swatches : undefined,
+        weights: sanitizeWeights(entry.weights, 6),
       }))
       .filter((entry) => entry.colors.length === 6);
   } catch {
@@ -333,13 +388,15 @@ async function initAuthAndSync() {
         window.history.replaceState({}, "", window.location.pathname);
       }
       
-      // Load palettes from cloud
-      const cloudPalettes = await getUserPalettes();
+      // Load palettes from cloud; weights are checked as they are from localStorage
+      const withWeights = (palettes: Palette[]): Palette[] =>
+        palettes.map((p) => ({ ...p, weights: sanitizeWeights(p.weights, p.colors.length) }));
+      const cloudPalettes = withWeights(await getUserPalettes());
       const localPalettes = loadCustomPalettes();
       
       if (justLoggedIn && localPalettes.length > 0) {
         // Merge local palettes to cloud
-        const merged = await saveUserPalettes(localPalettes, true);
+        const merged = withWeights(await saveUserPalettes(localPalettes, true));
         store.update({ customPalettes: merged });
         // Clear localStorage since we've merged
         localStorage.removeItem(CUSTOM_PALETTES_KEY);
@@ -388,7 +445,9 @@ async function shareOrDownload(blob: Blob, fileName: string) {
 async function downloadPng() {
   const state = store.get();
   const colorMap = buildColorMap(state);
-  const baseCanvas = renderToCanvas(currentGrid, state, { cellSize: 80, scale: 2, colorMap });
+  const baseCanvas = isHexMode()
+    ? renderHexToCanvas(currentHexGrid, { hexSize: 40, scale: 2, colorMap })
+    : renderToCanvas(currentGrid, state, { cellSize: 80, scale: 2, colorMap });
   
   // Add sprite sheet strip with fabric swatches
   const { canvas: exportCanvas, sprites } = addSpriteSheet(baseCanvas, state);
@@ -409,7 +468,10 @@ async function downloadPng() {
 
 async function downloadSvg() {
   const state = store.get();
-  let svg = renderSvg(currentGrid, state);
+  const colors = getRoleColors();
+  let svg = isHexMode()
+    ? renderHexSvg(resolveHexGrid(currentHexGrid, colors))
+    : renderSvg(resolveGrid(currentGrid, colors), { ...state, settingColor: resolveColor(resolveSettingColor(state), colors) });
   
   // Embed cartridge data (settings) in SVG metadata
   svg = embedInSvg(svg, state);
@@ -421,56 +483,206 @@ async function downloadSvg() {
   );
 }
 
+function getPaletteColors(): string[] {
+  const state = store.get();
+  const palettes = getAllPalettes(state.customPalettes);
+  return palettes[state.paletteIndex % palettes.length].colors;
+}
+
+/** Colour each palette role is drawn in, after any recolour */
+function getRoleColors(): string[] {
+  const state = store.get();
+  const palettes = getAllPalettes(state.customPalettes);
+  return recolorPalette(palettes[state.paletteIndex % palettes.length], state.recolor).colors;
+}
+
+const HEX_PIECE_NAMES: Record<HexFill, string> = {
+  [HexFill.Solid]: "hexagon",
+  [HexFill.Triangles]: "triangle",
+  [HexFill.Diamonds]: "diamond",
+};
+
+function generateHexCuttingList(): string {
+  const state = store.get();
+  const palettes = getAllPalettes(state.customPalettes);
+  const palette = palettes[state.paletteIndex % palettes.length];
+  const counts = hexPieceCounts(currentHexGrid);
+
+  const lines: string[] = [
+    `# English Paper Piecing List for Quilt Design`,
+    `# Seed: ${state.seed}`,
+    `# Grid: ${state.gridWidth} x ${state.gridHeight} hexagons`,
+    `# Palette: ${palette.name}`,
+    `#`,
+    `# Color Key:`,
+    ...palette.colors.map((c, i) => `#   ${i + 1} = ${c}`),
+    `#`,
+    `# Side = finished side length in inches (paper template size).`,
+    ``,
+    `Shape,Side,Color,Cut`,
+  ];
+
+  let total = 0;
+  for (const [kind, byColor] of counts) {
+    for (const [color, count] of [...byColor.entries()].sort((a, b) => b[1] - a[1])) {
+      const role = roleSlot(color);
+      const idx = role >= 0 ? recoloredSlot(state.recolor, role) : palette.colors.findIndex((c) => c.toUpperCase() === color);
+      lines.push(`${HEX_PIECE_NAMES[kind]},${state.hex.sizeInches},${idx >= 0 ? idx + 1 : color},${count}`);
+      total += count;
+    }
+  }
+
+  lines.push(``);
+  lines.push(`# Total pieces: ${total}`);
+  return lines.join("\n");
+}
+
+interface TileExtent {
+  alternate: boolean;
+  rows: number;
+  cols: number;
+}
+
+/** Repeat tiles of a generated alternate-block setting (cropped at the edges),
+ *  or null when the design doesn't alternate */
+function alternateTiles(state: AppState): { repeat: RepeatLayout; tiles: Map<string, TileExtent> } | null {
+  if (!state.alternateBlock?.enabled || currentMode !== "random" || state.onPoint) return null;
+  if (state.medallion?.enabled || state.rowQuilt?.enabled) return null;
+
+  const rows = currentGrid.length;
+  const cols = currentGrid[0]?.length ?? 0;
+  const repeat = repeatLayout(state, rows, cols);
+  const unit = state.blockLibrary?.enabled ? libraryUnitSize(state.blockLibrary.blockIds) : 0;
+  if (unit > 0) {
+    repeat.tileW = unit;
+    repeat.tileH = unit;
+  }
+
+  // Cells of one tile form a rectangle; track its corners
+  const bounds = new Map<string, { alternate: boolean; top: number; left: number; bottom: number; right: number }>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const pos = tilePosition(repeat, row, col);
+      const key = `${pos.tileRow},${pos.tileCol}`;
+      const b = bounds.get(key);
+      if (b) {
+        b.bottom = Math.max(b.bottom, row);
+        b.right = Math.max(b.right, col);
+      } else {
+        bounds.set(key, { alternate: isAlternateTile(pos), top: row, left: col, bottom: row, right: col });
+      }
+    }
+  }
+
+  const tiles = new Map<string, TileExtent>();
+  for (const [key, b] of bounds) {
+    tiles.set(key, { alternate: b.alternate, rows: b.bottom - b.top + 1, cols: b.right - b.left + 1 });
+  }
+  return { repeat, tiles };
+}
+
 function generateCuttingList(): string {
+  if (isHexMode()) return generateHexCuttingList();
   const state = store.get();
   const palettes = getAllPalettes(state.customPalettes);
   const palette = palettes[state.paletteIndex % palettes.length];
   
-  // Build a map of color hex -> palette index (1-based for human readability)
+  // Build a map of palette role or color hex -> palette index (1-based for human readability)
   const colorToIndex = new Map<string, number>();
   palette.colors.forEach((color, idx) => {
     colorToIndex.set(color.toUpperCase(), idx + 1);
   });
+  palette.colors.forEach((_, role) => {
+    colorToIndex.set(roleColor(role), recoloredSlot(state.recolor, role) + 1);
+  });
   
-  // Count unique pieces: key = "shape|colorIndices|rotation"
+  // Count unique pieces: key = "shape|size|colorIndices|rotation"
   const pieces = new Map<string, { 
     shape: string; 
+    size: string;
     colors: (number | string)[]; 
     rotation: number; 
     count: number;
   }>();
   
-  for (const row of currentGrid) {
-    for (const block of row) {
-      const colorIndices = block.colors.map(c => colorToIndex.get(c.toUpperCase()) ?? c);
-      const key = `${block.shape}|${colorIndices.join(",")}|${block.rotation}`;
-      
-      if (pieces.has(key)) {
-        pieces.get(key)!.count++;
-      } else {
-        pieces.set(key, {
-          shape: block.shape,
-          colors: colorIndices,
-          rotation: block.rotation,
-          count: 1,
-        });
+  const formatInches = (n: number) => String(Number(n.toFixed(2)));
+  
+  // Compound cells contribute their sub-pieces, at the sub-grid's smaller size
+  function addPiece(block: QuiltBlock, cellInches: number, parentRotation: number) {
+    const rotation = (block.rotation + parentRotation) % 360;
+    if (block.subgrid) {
+      const subInches = cellInches / block.subgrid.length;
+      for (const subRow of block.subgrid) {
+        for (const child of subRow) addPiece(child, subInches, rotation);
       }
+      return;
     }
+    
+    const { cols, rows } = getBlockFootprint(block);
+    const size = cols === 1 && rows === 1
+      ? formatInches(cellInches)
+      : `${formatInches(cols * cellInches)}x${formatInches(rows * cellInches)}`;
+    const colorIndices = block.colors.map(c => colorToIndex.get(c.toUpperCase()) ?? c);
+    const key = `${block.shape}|${size}|${colorIndices.join(",")}|${rotation}`;
+    
+    if (pieces.has(key)) {
+      pieces.get(key)!.count++;
+    } else {
+      pieces.set(key, {
+        shape: block.shape,
+        size,
+        colors: colorIndices,
+        rotation,
+        count: 1,
+      });
+    }
+  }
+  
+  // Plain alternate blocks are cut as one setting square each, not cell by cell
+  const alternates = alternateTiles(state);
+  const plainAlternates = alternates && state.alternateBlock.kind === "plain" ? alternates : null;
+  const inPlainAlternate = (row: number, col: number) =>
+    !!plainAlternates && isAlternateTile(tilePosition(plainAlternates.repeat, row, col));
+
+  // On point, the blocks are the full diamonds of the on-point layout
+  const onPointLayout = state.onPoint ? buildOnPointLayout(currentGrid) : null;
+  const blocks = onPointLayout
+    ? onPointLayout.blocks.map((p) => p.block)
+    : currentGrid.flatMap((gridRow, row) => gridRow.filter((_, col) => !inPlainAlternate(row, col)));
+  for (const block of blocks) {
+    // Two-cell units are counted once, at their top-left cell
+    if (isCoveredCell(block)) continue;
+    addPiece(block, state.blockSizeInches, 0);
   }
   
+  const rowBands = state.rowQuilt?.enabled ? bandRanges(state.rowQuilt.bands) : [];
+  const tileCounts = alternates ? [...alternates.tiles.values()] : [];
+  const alternateCount = tileCounts.filter((t) => t.alternate).length;
+
   // Build CSV with separate color columns
   const lines: string[] = [
     `# Cutting List for Quilt Design`,
     `# Seed: ${state.seed}`,
     `# Grid: ${state.gridWidth} x ${state.gridHeight}`,
     `# Palette: ${palette.name}`,
+    ...rowBands.map(
+      ({ band, start }, i) =>
+        `# Band ${i + 1}: rows ${start + 1}-${start + band.height}, ${band.tileWidth}-wide repeat, ${band.symmetryMode} symmetry`
+    ),
+    ...(state.scrappy?.enabled && hasRepeatTile(state)
+      ? [`# Scrappy: every repeat of the tile has colours of its own; counts cover all repeats`]
+      : []),
+    ...(alternates
+      ? [`# Alternate blocks: ${tileCounts.length - alternateCount} main tiles, ${alternateCount} ${state.alternateBlock.kind} alternates (edge tiles cropped)`]
+      : []),
     `#`,
     `# Color Key:`,
     ...palette.colors.map((c, i) => `#   ${i + 1} = ${c}`),
     `#`,
     `# Each row = one unique piece. "Cut" = how many of that exact piece to cut.`,
+    `# Finished sizes are in inches (width x height for two-cell units and strips, leg length for setting triangles).`,
     ``,
-    `Shape,Color 1,Color 2,Color 3,Color 4,Rotation,Cut`,
+    `Shape,Finished Size,Color 1,Color 2,Color 3,Color 4,Rotation,Cut`,
   ];
   
   // Sort by shape, then by count descending
@@ -487,11 +699,57 @@ function generateCuttingList(): string {
       piece.colors[2] ?? "",
       piece.colors[3] ?? "",
     ];
-    lines.push(`${piece.shape},${cols.join(",")},${piece.rotation}°,${piece.count}`);
+    lines.push(`${piece.shape},${piece.size},${cols.join(",")},${piece.rotation}°,${piece.count}`);
   }
   
+  // Setting and corner triangles fill the edges of an on-point quilt
+  let extraPieces = 0; // setting triangles and squares, spacer strips
+  if (onPointLayout) {
+    const block = state.blockSizeInches;
+    const settingColor = resolveSettingColor(state);
+    const settingIdx = colorToIndex.get(settingColor.toUpperCase()) ?? settingColor;
+    const sides = onPointLayout.sideTriangles.length;
+    const corners = onPointLayout.cornerTriangles.length;
+    lines.push(`setting-triangle,${formatInches(block)},${settingIdx},,,,0°,${sides}`);
+    lines.push(`corner-triangle,${formatInches(block / Math.SQRT2)},${settingIdx},,,,0°,${corners}`);
+    lines.push(``);
+    lines.push(`# Setting triangles: cut ${Math.ceil(sides / 4)} squares at ${formatInches(sideTriangleCutSquare(block))}", then cut twice diagonally`);
+    lines.push(`# Corner triangles: cut ${Math.ceil(corners / 2)} squares at ${formatInches(cornerTriangleCutSquare(block))}", then cut once diagonally`);
+    extraPieces = sides + corners;
+  }
+
+  // Spacer strips run the full width of the quilt between a row quilt's bands
+  const spacer = state.sashingBorder;
+  if (rowBands.length > 1 && !state.onPoint && spacer?.lineCount > 0) {
+    const stripSize = `${formatInches((spacer.widthFraction || 0.25) * state.blockSizeInches)}x${formatInches(state.gridWidth * state.blockSizeInches)}`;
+    for (let i = 0; i < spacer.lineCount; i++) {
+      const color = spacer.colors[i] || "#888888";
+      const colorIdx = colorToIndex.get(color.toUpperCase()) ?? color;
+      lines.push(`spacer-strip,${stripSize},${colorIdx},,,,0°,${rowBands.length - 1}`);
+    }
+    extraPieces += spacer.lineCount * (rowBands.length - 1);
+  }
+
+  // Plain alternates: one setting square per tile, smaller where cropped at the edge
+  if (plainAlternates) {
+    const color = state.alternateBlock.color || roleColor(0);
+    const colorIdx = colorToIndex.get(color.toUpperCase()) ?? color;
+    const squares = new Map<string, number>();
+    for (const tile of plainAlternates.tiles.values()) {
+      if (!tile.alternate) continue;
+      const w = formatInches(tile.cols * state.blockSizeInches);
+      const h = formatInches(tile.rows * state.blockSizeInches);
+      const size = w === h ? w : `${w}x${h}`;
+      squares.set(size, (squares.get(size) ?? 0) + 1);
+    }
+    for (const [size, count] of squares) {
+      lines.push(`setting-square,${size},${colorIdx},,,,0°,${count}`);
+      extraPieces += count;
+    }
+  }
+
   // Add totals
-  const totalPieces = sorted.reduce((sum, p) => sum + p.count, 0);
+  const totalPieces = sorted.reduce((sum, p) => sum + p.count, 0) + extraPieces;
   const uniqueVariants = sorted.length;
   lines.push(``);
   lines.push(`# Total pieces: ${totalPieces}`);
@@ -510,19 +768,82 @@ async function downloadCuttingList() {
   );
 }
 
+async function downloadEppTemplate() {
+  const state = store.get();
+  const svg = renderEppTemplate(resolveHexGrid(currentHexGrid, getRoleColors()), state.hex.sizeInches, getPaletteColors());
+  const blob = new Blob([svg], { type: "image/svg+xml" });
+  await shareOrDownload(blob, `quilt-${state.seed}-epp-templates.svg`);
+}
+
 // Debounced redraw to prevent render pile-up
 let redrawTimeout: ReturnType<typeof setTimeout> | null = null;
 let pendingRedraw = false;
 
 function redraw() {
   const state = store.get();
-  const rawGrid = generateGrid(state);
-  // Simplify blocks where adjacent triangles of same color can merge
-  currentGrid = simplifyGrid(rawGrid);
-  const colorMap = buildColorMap(state);
-  render(canvas, currentGrid, state, colorMap);
+  if (isHexMode()) {
+    currentHexGrid = generateHexGrid(state);
+    renderHex(canvas, currentHexGrid, buildColorMap(state, state.valuePreview));
+    currentGeometry = null;
+  } else {
+    const rawGrid = generateGrid(state);
+    // Simplify blocks where adjacent triangles of same color can merge
+    currentGrid = simplifyGrid(rawGrid);
+    const colorMap = buildColorMap(state, state.valuePreview);
+    renderWithLocks(state, colorMap);
+  }
+  // The panels read the grid just made
+  syncRecolorPanel();
+  syncMissingColors();
 }
 
+// --- Locked cells ---
+// Clicking a cell of the repeat tile locks it (and the other half of its
+// unit); every grid cell showing a locked tile cell is marked
+
+/** The repeat tile cell a grid cell shows, or null where there is none to lock */
+function lockableCell(state: AppState, row: number, col: number): { row: number; col: number } | null {
+  if (!hasRepeatTile(state) || state.onPoint) return null;
+  const pos = tilePosition(repeatLayout(state, state.gridHeight, state.gridWidth), row, col);
+  if (state.alternateBlock?.enabled && isAlternateTile(pos)) return null;
+  return { row: pos.row, col: pos.col };
+}
+
+function renderWithLocks(state: AppState, colorMap: ColorToSwatchMap) {
+  currentGeometry = render(canvas, currentGrid, state, colorMap);
+  if (!currentGeometry || Object.keys(state.locks).length === 0) return;
+  const locked: { row: number; col: number }[] = [];
+  for (let row = 0; row < currentGeometry.rows; row++) {
+    for (let col = 0; col < currentGeometry.cols; col++) {
+      const cell = lockableCell(state, row, col);
+      if (cell && state.locks[`${cell.row},${cell.col}`]) locked.push({ row, col });
+    }
+  }
+  drawLockMarkers(canvas, currentGeometry, locked);
+}
+
+canvas.addEventListener("click", (e) => {
+  if (currentMode !== "random" || !currentGeometry) return;
+  const rect = canvas.getBoundingClientRect();
+  const hit = cellAtPoint(currentGeometry, e.clientX - rect.left, e.clientY - rect.top);
+  const state = store.get();
+  const cell = hit && lockableCell(state, hit.row, hit.col);
+  if (!cell) return;
+
+  const locks = { ...state.locks };
+  const tile = repeatTile(state);
+  const block = tile[cell.row][cell.col];
+  const cells = [cell];
+  if (block.span) cells.push({ row: cell.row + block.span.dRow, col: cell.col + block.span.dCol });
+  const unlock = !!locks[`${cell.row},${cell.col}`];
+  for (const { row, col } of cells) {
+    if (!tile[row]?.[col]) continue;
+    if (unlock) delete locks[`${row},${col}`];
+    else locks[`${row},${col}`] = tile[row][col];
+  }
+  store.update({ locks });
+});
+
 function scheduleRedraw() {
   if (redrawTimeout) {
     pendingRedraw = true;
@@ -555,17 +876,51 @@ function scheduleRedraw() {
 // Re-render (just paint, don't regenerate grid) when fabric images finish loading
 function repaint() {
   const state = store.get();
-  const colorMap = buildColorMap(state);
-  render(canvas, currentGrid, state, colorMap);
+  const colorMap = buildColorMap(state, state.valuePreview);
+  if (isHexMode()) {
+    renderHex(canvas, currentHexGrid, colorMap);
+    return;
+  }
+  if (currentMode === "manual") {
+    render(canvas, currentGrid, state, colorMap);
+    return;
+  }
+  renderWithLocks(state, colorMap);
+}
+
+// Re-render when fabric images finish loading (just repaint, grid hasn't
+// changed, unless the design depends on the fabrics' lightness: value
+// classes, an ombré in lightness order, or scrappy swaps)
+function usesFabricLightness(state: AppState): boolean {
+  return (
+    state.valueMap.enabled ||
+    (state.gradient.kind !== "none" && state.gradient.order === "lightness") ||
+    state.scrappy.enabled
+  );
 }
 
-// Re-render when fabric images finish loading (just repaint, grid hasn't changed)
 setOnFabricLoaded(() => {
-  repaint();
+  if (usesFabricLightness(store.get()) && currentMode === "random") scheduleRedraw();
+  else repaint();
 });
 
-// Re-render on any state change
-store.subscribe(scheduleRedraw);
+// Re-render on any state change. A recolour or the value preview only
+// changes the colours the roles are drawn in, so the grid is repainted, not
+// regenerated.
+const PAINT_ONLY: (keyof AppState)[] = ["recolor", "valuePreview"];
+let lastState = store.get();
+store.subscribe(() => {
+  const state = store.get();
+  const changed = (Object.keys(state) as (keyof AppState)[]).filter((key) => state[key] !== lastState[key]);
+  lastState = state;
+  if (currentMode === "random" && changed.length > 0 && changed.every((key) => PAINT_ONLY.includes(key))) {
+    repaint();
+    syncRecolorPanel();
+    syncMissingColors();
+    return;
+  }
+  scheduleRedraw();
+});
 
 // Re-render on resize (just repaint)
 window.addEventListener("resize", () => {
@@ -578,7 +933,62 @@ window.addEventListener("resize", () => {
 // Wire up UI controls
 bindUI(store, { 
   onExportImage: (format) => format === 'svg' ? downloadSvg() : downloadPng(), 
-  onExportCuttingList: downloadCuttingList 
+  onExportCuttingList: downloadCuttingList,
+  onExportEppTemplate: downloadEppTemplate,
+});
+
+// --- Recolour panel ---
+
+/** Palette roles the current design uses (none for hand-made designs) */
+function usedRoles(): number[] {
+  if (currentMode !== "random") return [];
+  const colors = isHexMode()
+    ? currentHexGrid.flatMap((row) => row.flatMap((cell) => cell.colors))
+    : currentGrid.flatMap((row) => row.flatMap(patchColors));
+  const roles = new Set(colors.map(roleSlot).filter((role) => role >= 0));
+  return [...roles].sort((a, b) => a - b);
+}
+
+/** Exact colour counts: palette colours (numbered from 1) the design has no
+ *  room for, since its repeat is too small or its shapes too plain */
+function syncMissingColors() {
+  const hint = document.getElementById("missing-colors");
+  if (!hint) return;
+  const state = store.get();
+  const missing: number[] = [];
+  if (state.colorCountMode === "exact" && currentMode === "random" && fitsExactColors(state)) {
+    const count = Math.max(1, Math.min(state.paletteColorCount, getPaletteColors().length));
+    const used = new Set(usedRoles());
+    for (let role = 0; role < count; role++) {
+      if (!used.has(role)) missing.push(recoloredSlot(state.recolor, role) + 1);
+    }
+    missing.sort((a, b) => a - b);
+  }
+  hint.style.display = missing.length > 0 ? "block" : "none";
+  // Exact colours fill a medallion's centre, and each band of a row quilt
+  const where = state.medallion?.enabled
+    ? "the centre: try a bigger one"
+    : state.rowQuilt?.enabled && state.rowQuilt.bands.length > 0
+      ? "the bands: try wider ones"
+      : "this repeat: try a bigger one";
+  if (missing.length === 1) {
+    hint.textContent = `Colour ${missing[0]} doesn't fit in ${where} or more shapes.`;
+  } else if (missing.length > 1) {
+    const list = `${missing.slice(0, -1).join(", ")} and ${missing[missing.length - 1]}`;
+    hint.textContent = `Colours ${list} don't fit in ${where} or more shapes.`;
+  }
+}
+
+initRecolorPanel(store, {
+  getUsedRoles: usedRoles,
+  getPalette: getCurrentPaletteForShare,
+  renderPreview: (recolor) => {
+    const state = { ...store.get(), recolor };
+    const colorMap = buildColorMap(state);
+    if (isHexMode()) return renderHexToCanvas(currentHexGrid, { hexSize: 6, scale: 1, colorMap });
+    const cols = currentGrid[0]?.length ?? 1;
+    return renderToCanvas(currentGrid, state, { cellSize: Math.max(2, Math.floor(120 / cols)), scale: 1, colorMap });
+  },
 });
 
 // --- Advanced section persistence ---
@@ -603,7 +1013,7 @@ const loadDesignInput = document.getElementById("load-design-input") as HTMLInpu
 async function handleLoadFile(file: File) {
   const loadedState = await loadCartridgeFromFile(file);
   if (loadedState) {
-    // Merge loaded state with current state (preserving any fields not in cartridge)
+    // Merge over the current state: settings a design never saves (scale, value preview, …) are kept
     store.update(loadedState);
     alert(`Loaded design: ${file.name}`);
   } else {
@@ -625,6 +1035,37 @@ if (loadDesignBtn && loadDesignInput) {
   });
 }
 
+// --- Learn WFC adjacency from a design ---
+// The learned sample is the grid as drawn; "more like this" tiles then only
+// put blocks together the way they sit in it
+
+function learnFrom(sample: QuiltBlock[][]) {
+  store.update({ generator: Generator.Wfc, wfc: { ...store.get().wfc, adjacency: "learned", sample } });
+}
+
+document.getElementById("wfc-learn-current")?.addEventListener("click", () => {
+  if (isHexMode() || currentGrid.length === 0) {
+    alert("Switch to a square-grid design to learn from it.");
+    return;
+  }
+  learnFrom(currentGrid.map((row) => row.map((block) => ({ ...block, colors: [...block.colors] }))));
+});
+
+const learnInput = document.getElementById("wfc-learn-input") as HTMLInputElement | null;
+document.getElementById("wfc-learn-file")?.addEventListener("click", () => learnInput?.click());
+learnInput?.addEventListener("change", async () => {
+  const file = learnInput.files?.[0];
+  if (!file) return;
+  const loadedState = await loadCartridgeFromFile(file);
+  learnInput.value = ""; // Reset for next load
+  if (!loadedState) {
+    alert("Could not load design from this file. Make sure it's a PNG or SVG saved from Quilt Designer.");
+    return;
+  }
+  // Rebuild the saved design's grid without loading it
+  learnFrom(simplifyGrid(generateGrid({ ...store.get(), ...loadedState })));
+});
+
 // Drag & drop support
 const dropTarget = document.body;
 
@@ -659,6 +1100,26 @@ const modeManualBtn = document.getElementById("mode-manual");
 modeRandomBtn?.addEventListener("click", () => setMode("random"));
 modeManualBtn?.addEventListener("click", () => setMode("manual"));
 
+// --- Stamp a traditional block (manual mode) ---
+const stampSelect = document.getElementById("stamp-block") as HTMLSelectElement | null;
+const stampBtn = document.getElementById("stamp-block-btn");
+
+if (stampSelect) {
+  for (const block of BLOCK_LIBRARY) {
+    const option = document.createElement("option");
+    option.value = block.id;
+    option.textContent = `${block.name} (${block.cells.length}×${block.cells.length})`;
+    stampSelect.appendChild(option);
+  }
+}
+
+stampBtn?.addEventListener("click", () => {
+  const def = stampSelect ? getBlockById(stampSelect.value) : undefined;
+  if (!manualState || !def) return;
+  stampBlock(manualState, def, getManualPaletteColors());
+  redrawManual();
+});
+
 // Initialize with random mode
 document.querySelector(".sidebar")?.classList.add("random-mode");
 
@@ -726,6 +1187,7 @@ function importSharedPalette(palette: SharedPalette) {
     name: palette.name,
     colors: palette.colors,
     swatches,
+    weights: sanitizeWeights(palette.weights, palette.colors.length),
   };
   
   customPalettes.push(newPalette);
@@ -837,7 +1299,7 @@ initShareDesignModal({
   getCurrentPalette: getCurrentPaletteForShare,
   getCurrentPaletteIndex: () => store.get().paletteIndex,
   getCanvasThumbnail,
-  getGeneratedName: () => generateName(store.get().seed),
+  getGeneratedName: () => generateName(store.get().seed, store.get().colorSeed),
   onSuccess: () => {
     alert("Design shared successfully! 🎉");
   },
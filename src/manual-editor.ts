@@ -1,29 +1,6 @@
 import { type QuiltBlock, ShapeType } from "./types";
-
-// --- Block transforms (copied from layout.ts for now, could be shared) ---
-
-function mirrorH(block: QuiltBlock): QuiltBlock {
-  const b = { ...block, colors: [...block.colors] };
-  if (b.shape === ShapeType.HST) {
-    b.colors = [b.colors[1], b.colors[0]];
-    b.rotation = (450 - b.rotation) % 360;
-  } else if (b.shape === ShapeType.QST) {
-    b.colors = [b.colors[0], b.colors[3], b.colors[2], b.colors[1]];
-    b.rotation = (360 - b.rotation) % 360;
-  }
-  return b;
-}
-
-function mirrorV(block: QuiltBlock): QuiltBlock {
-  const b = { ...block, colors: [...block.colors] };
-  if (b.shape === ShapeType.HST) {
-    b.rotation = (90 - b.rotation + 360) % 360;
-  } else if (b.shape === ShapeType.QST) {
-    b.colors = [b.colors[2], b.colors[1], b.colors[0], b.colors[3]];
-    b.rotation = (180 - b.rotation + 360) % 360;
-  }
-  return b;
-}
+import { mirrorH, mirrorV, splitSpan } from "./layout";
+import { type TraditionalBlock, instantiateBlock } from "./blocks";
 
 // --- Manual Editor State ---
 
@@ -105,6 +82,24 @@ export function generateFromPrimary(state: ManualEditorState): QuiltBlock[][] {
   return tile;
 }
 
+// Stamp a traditional block into the primary segment, anchored top-left and
+// cropped to fit. Roles take palette colours in order. Two-cell units are
+// split so every stamped cell stays editable on its own.
+export function stampBlock(state: ManualEditorState, def: TraditionalBlock, paletteColors: string[]): void {
+  const roleColors: Record<string, string> = {};
+  def.roles.forEach((role, i) => {
+    roleColors[role] = paletteColors[i % paletteColors.length];
+  });
+  const cells = instantiateBlock(def, roleColors);
+
+  for (let row = 0; row < Math.min(state.cells.length, cells.length); row++) {
+    for (let col = 0; col < Math.min(state.cells[row].length, cells[row].length); col++) {
+      const block = cells[row][col];
+      state.cells[row][col] = block.span ? splitSpan(block) : block;
+    }
+  }
+}
+
 // --- Shape cycling ---
 
 const SHAPE_CYCLE: ShapeType[] = [ShapeType.Square, ShapeType.HST, ShapeType.QST];
@@ -151,6 +146,7 @@ export function rotateBlock(block: QuiltBlock): QuiltBlock {
 export function cycleColor(block: QuiltBlock, colorIndex: number, paletteColors: string[]): QuiltBlock {
   const newColors = [...block.colors];
   const currentColor = newColors[colorIndex];
+  if (currentColor === undefined) return block; // e.g. compound cells
   const currentPaletteIdx = paletteColors.findIndex(c => c.toUpperCase() === currentColor.toUpperCase());
   const nextPaletteIdx = (currentPaletteIdx + 1) % paletteColors.length;
   newColors[colorIndex] = paletteColors[nextPaletteIdx];
@@ -0,0 +1,67 @@
+// Medallion layout: one centre tile (the repeat size) framed by concentric
+// rounds of pieced border. Each round is a ring `depth` cells wide around
+// everything inside it, so the whole medallion is still an ordinary grid.
+//
+// A round is designed along its top side, outer edge up: cell (j, i) is j
+// cells in from the outer edge and i cells along from the left. The right,
+// bottom and left sides are the same strip turned 90°, 180° and 270°
+// clockwise. The corner squares are designed at the top left, (r, c) from
+// the outer corner, and turned the same way.
+
+import type { AppState, MedallionRound } from "./types";
+
+export interface RingCell {
+  row: number;
+  col: number;
+  turns: number;   // quarter turns clockwise from the top side / top-left corner
+  corner: boolean;
+  j: number;       // side: cells in from the outer edge; corner: row from the outer corner
+  i: number;       // side: cells along the side; corner: column from the outer corner
+  length: number;  // cells along the side (the depth for corners)
+}
+
+/** Size of the centre tile */
+export function medallionCentre(state: AppState): { width: number; height: number } {
+  return { width: Math.max(1, state.repeatWidth || 4), height: Math.max(1, state.repeatHeight || 4) };
+}
+
+function roundsDepth(rounds: MedallionRound[]): number {
+  return rounds.reduce((sum, r) => sum + r.depth, 0);
+}
+
+/** Grid size of the whole medallion: the centre plus every round on both sides */
+export function medallionSize(state: AppState): { width: number; height: number } {
+  const centre = medallionCentre(state);
+  const depth = roundsDepth(state.medallion.rounds);
+  return { width: centre.width + depth * 2, height: centre.height + depth * 2 };
+}
+
+/** Every cell of a round `depth` wide around the w × h area at (top, left) */
+export function ringCells(top: number, left: number, w: number, h: number, depth: number): RingCell[] {
+  const cells: RingCell[] = [];
+  const bottom = top + h + depth - 1; // outermost row below the area
+  const right = left + w + depth - 1; // outermost column right of the area
+
+  for (let j = 0; j < depth; j++) {
+    for (let i = 0; i < w; i++) {
+      cells.push({ row: top - depth + j, col: left + i, turns: 0, corner: false, j, i, length: w });
+      cells.push({ row: bottom - j, col: left + w - 1 - i, turns: 2, corner: false, j, i, length: w });
+    }
+    for (let i = 0; i < h; i++) {
+      cells.push({ row: top + i, col: right - j, turns: 1, corner: false, j, i, length: h });
+      cells.push({ row: top + h - 1 - i, col: left - depth + j, turns: 3, corner: false, j, i, length: h });
+    }
+  }
+
+  for (let r = 0; r < depth; r++) {
+    for (let c = 0; c < depth; c++) {
+      const corner = { corner: true, j: r, i: c, length: depth };
+      cells.push({ ...corner, row: top - depth + r, col: left - depth + c, turns: 0 });
+      cells.push({ ...corner, row: top - depth + c, col: right - r, turns: 1 });
+      cells.push({ ...corner, row: bottom - r, col: right - c, turns: 2 });
+      cells.push({ ...corner, row: bottom - c, col: left - depth + r, turns: 3 });
+    }
+  }
+
+  return cells;
+}
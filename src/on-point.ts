@@ -0,0 +1,102 @@
+// On-point (diagonal) setting: the design grid is turned 45° and laid on a
+// diamond lattice, gridWidth blocks across and gridHeight blocks down, the
+// traditional way. Half-diamonds along the edges become side setting
+// triangles and the four quarter-diamonds become corner triangles.
+//
+// Lattice positions are (a, b) in half-diagonal steps from the quilt's
+// top-left corner: a position's centre sits at ((a + 1) · d/2, (b + 1) · d/2)
+// where d is the block diagonal. Full blocks have 0 ≤ a ≤ 2·across − 2 and
+// 0 ≤ b ≤ 2·down − 2 with a and b of equal parity.
+
+import type { AppState, QuiltBlock } from "./types";
+import { splitSpan } from "./layout";
+import { roleColor } from "./palette";
+
+export interface OnPointPosition {
+  a: number;
+  b: number;
+}
+
+export interface OnPointBlock extends OnPointPosition {
+  block: QuiltBlock;
+}
+
+export interface OnPointLayout {
+  across: number;
+  down: number;
+  blocks: OnPointBlock[];
+  sideTriangles: OnPointPosition[];
+  cornerTriangles: OnPointPosition[];
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+/** Lay the design out on point. Blocks come from the design grid along the
+ *  diagonal axes (columns run down-right, rows run down-left), wrapping so a
+ *  repeating design continues seamlessly. */
+export function buildOnPointLayout(grid: QuiltBlock[][]): OnPointLayout {
+  const down = grid.length;
+  const across = grid[0]?.length ?? 0;
+  const layout: OnPointLayout = { across, down, blocks: [], sideTriangles: [], cornerTriangles: [] };
+  if (across === 0 || down === 0) return layout;
+
+  const maxA = 2 * across - 2;
+  const maxB = 2 * down - 2;
+  const isFull = (a: number, b: number) => a >= 0 && a <= maxA && b >= 0 && b <= maxB;
+
+  for (let b = -1; b <= maxB + 1; b++) {
+    for (let a = -1; a <= maxA + 1; a++) {
+      if (mod(a, 2) !== mod(b, 2)) continue;
+      const edgeA = a === -1 || a === maxA + 1;
+      const edgeB = b === -1 || b === maxB + 1;
+
+      if (edgeA && edgeB) {
+        layout.cornerTriangles.push({ a, b });
+      } else if (edgeA || edgeB) {
+        layout.sideTriangles.push({ a, b });
+      } else {
+        const u = (a + b) / 2;
+        const v = (b - a) / 2;
+        let block = grid[mod(v, down)][mod(u, across)];
+        // Two-cell units whose other half would be a setting triangle are split
+        if (block.span) {
+          const pu = u + block.span.dCol;
+          const pv = v + block.span.dRow;
+          if (!isFull(pu - pv, pu + pv)) block = splitSpan(block);
+        }
+        layout.blocks.push({ a, b, block });
+      }
+    }
+  }
+
+  return layout;
+}
+
+/** Centre of a lattice position, for blocks with side `cellSize` */
+export function onPointCenter(pos: OnPointPosition, cellSize: number): { x: number; y: number } {
+  const half = (cellSize * Math.SQRT2) / 2;
+  return { x: (pos.a + 1) * half, y: (pos.b + 1) * half };
+}
+
+/** Quilt size (before borders) in units of the block side */
+export function onPointSize(across: number, down: number): { width: number; height: number } {
+  return { width: across * Math.SQRT2, height: down * Math.SQRT2 };
+}
+
+/** Setting triangle colour: the chosen role, or the palette's first */
+export function resolveSettingColor(state: AppState): string {
+  return state.settingColor || roleColor(0);
+}
+
+// Standard rotary-cutting sizes for setting pieces, from the finished block size
+export function sideTriangleCutSquare(blockInches: number): number {
+  // One square cut twice diagonally gives four side triangles
+  return blockInches * Math.SQRT2 + 1.25;
+}
+
+export function cornerTriangleCutSquare(blockInches: number): number {
+  // One square cut once diagonally gives two corner triangles
+  return blockInches / Math.SQRT2 + 0.875;
+}
@@ -1,4 +1,4 @@
-import type { Palette } from "./types";
+import type { HexCell, Palette, QuiltBlock } from "./types";
 
 export const BASE_PALETTES: Palette[] = [
   {
@@ -54,3 +54,90 @@ export const BASE_PALETTES: Palette[] = [
 export function getAllPalettes(custom: Palette[]): Palette[] {
   return [...BASE_PALETTES, ...custom];
 }
+
+// Palette weights are whole numbers from 0 to MAX_WEIGHT; a palette without
+// them draws every colour DEFAULT_WEIGHT times in the same number of picks
+export const DEFAULT_WEIGHT = 5;
+export const MAX_WEIGHT = 20;
+
+/** Weight of each of the palette's first `count` slots */
+export function paletteWeights(palette: Palette, count: number): number[] {
+  return Array.from({ length: count }, (_, slot) => palette.weights?.[slot] ?? DEFAULT_WEIGHT);
+}
+
+/** Weights kept whole and in range, one per colour, or undefined if there are none */
+export function sanitizeWeights(weights: unknown, count: number): number[] | undefined {
+  if (!Array.isArray(weights)) return undefined;
+  return Array.from({ length: count }, (_, slot) => {
+    const w = Number(weights[slot]);
+    return Number.isFinite(w) ? Math.max(0, Math.min(MAX_WEIGHT, Math.round(w))) : DEFAULT_WEIGHT;
+  });
+}
+
+// Generated designs hold palette roles, not colours: "@0" is the palette's
+// first slot, "@1" its second, and so on. Roles are looked up in the active
+// palette only when a design is drawn or exported, so switching or editing
+// the palette restyles the same layout. Hand-made designs keep literal
+// colours, which pass through unchanged.
+
+export function roleColor(slot: number): string {
+  return `@${slot}`;
+}
+
+/** Palette slot a role stands for, or -1 for a literal colour */
+export function roleSlot(color: string): number {
+  if (!color.startsWith("@")) return -1;
+  const slot = Number(color.slice(1));
+  return Number.isInteger(slot) && slot >= 0 ? slot : -1;
+}
+
+/** The colour a role takes in a palette (slots past its end wrap around) */
+export function resolveColor(color: string, colors: string[]): string {
+  const slot = roleSlot(color);
+  if (slot < 0 || colors.length === 0) return color;
+  return colors[slot % colors.length];
+}
+
+// Value-map designs are first drawn in value classes, "~0" (lightest) to
+// "~n"; each class is then filled with roles of that lightness
+
+export function valueColor(level: number): string {
+  return `~${level}`;
+}
+
+/** Value class a colour stands for, or -1 for a role or literal colour */
+export function valueLevel(color: string): number {
+  if (!color.startsWith("~")) return -1;
+  const level = Number(color.slice(1));
+  return Number.isInteger(level) && level >= 0 ? level : -1;
+}
+
+/** Palette slot a role is drawn in after a recolour */
+export function recoloredSlot(recolor: number[], role: number): number {
+  return recolor[role] ?? role;
+}
+
+/** The palette as the roles see it: entry i is the colour (and swatch) role i
+ *  is drawn in once the recolour has permuted the slots */
+export function recolorPalette(palette: Palette, recolor: number[]): Palette {
+  const permute = <T>(items: T[]) => items.map((item, role) => items[recoloredSlot(recolor, role)] ?? item);
+  return {
+    ...palette,
+    colors: permute(palette.colors),
+    ...(palette.swatches && { swatches: permute(palette.swatches) }),
+  };
+}
+
+/** Copy of a grid with its roles replaced by the palette's colours */
+export function resolveGrid(grid: QuiltBlock[][], colors: string[]): QuiltBlock[][] {
+  const resolveBlock = (block: QuiltBlock): QuiltBlock => ({
+    ...block,
+    colors: block.colors.map((c) => resolveColor(c, colors)),
+    ...(block.subgrid && { subgrid: block.subgrid.map((row) => row.map(resolveBlock)) }),
+  });
+  return grid.map((row) => row.map(resolveBlock));
+}
+
+export function resolveHexGrid(grid: HexCell[][], colors: string[]): HexCell[][] {
+  return grid.map((row) => row.map((cell) => ({ ...cell, colors: cell.colors.map((c) => resolveColor(c, colors)) })));
+}
@@ -23,4 +23,40 @@ export class SeededRandom {
   pick<T>(arr: T[]): T {
     return arr[Math.floor(this.next() * arr.length)];
   }
+
+  /** Shuffle an array in place (Fisher-Yates) and return it */
+  shuffle<T>(arr: T[]): T[] {
+    for (let i = arr.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [arr[i], arr[j]] = [arr[j], arr[i]];
+    }
+    return arr;
+  }
+
+  /** Random index, each as likely as its weight (any index when all are 0) */
+  weighted(weights: number[]): number {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return Math.floor(this.next() * weights.length);
+    let pick = this.next() * total;
+    for (let i = 0; i < weights.length; i++) {
+      pick -= weights[i];
+      if (pick < 0 && weights[i] > 0) return i;
+    }
+    // Rounding left the pick just past the end: the last weighted index
+    let last = weights.length - 1;
+    while (weights[last] <= 0) last--;
+    return last;
+  }
+}
+
+/** A seed for a stream of its own, mixed from a seed and any number of
+ *  positions or offsets, so neighbouring values give unrelated streams */
+export function mixSeed(seed: number, ...parts: number[]): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b);
+  for (const part of parts) {
+    h = Math.imul(h ^ (part | 0), 0xc2b2ae35);
+    h ^= h >>> 13;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  return (h ^ (h >>> 13)) | 0;
 }
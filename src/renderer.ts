@@ -1,6 +1,16 @@
 import type { AppState, QuiltBlock } from "./types";
-import { ShapeType, isFabricSwatch, isColorSwatch } from "./types";
-import { drawBlock, type ColorToSwatchMap, getOrCreatePattern } from "./shapes";
+import { ShapeType, isFabricSwatch, isColorSwatch, isCoveredCell, isSpanShape } from "./types";
+import {
+  drawBlock,
+  type ColorToSwatchMap,
+  getOrCreatePattern,
+  getBlockFootprint,
+  DRUNKARDS_PATH_RADIUS,
+  SNOWBALL_CORNER,
+} from "./shapes";
+import { buildOnPointLayout, onPointCenter, onPointSize, resolveSettingColor } from "./on-point";
+import { type SashingRects, cellOrigin, repeatLayout, sashingGaps, sashingRects } from "./repeat";
+import { bandRanges } from "./row-quilt";
 
 // Helper to fill a rectangle with either a color or fabric pattern
 function fillRectWithSwatch(
@@ -45,12 +55,176 @@ function ensureFabricLoaded(dataUrl: string): void {
   }
 }
 
+// Draw the grid on point with its top-left corner at (x0, y0). The whole area
+// is filled with the setting colour first, so the edge and corner setting
+// triangles are whatever the diamonds leave uncovered.
+function drawOnPoint(
+  ctx: CanvasRenderingContext2D,
+  grid: QuiltBlock[][],
+  state: AppState,
+  x0: number,
+  y0: number,
+  cellSize: number,
+  colorMap: ColorToSwatchMap | undefined,
+  includeGrid: boolean
+): void {
+  const layout = buildOnPointLayout(grid);
+  const size = onPointSize(layout.across, layout.down);
+  const w = size.width * cellSize;
+  const h = size.height * cellSize;
+  const half = (cellSize * Math.SQRT2) / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x0, y0, w, h);
+  ctx.clip();
+
+  fillRectWithSwatch(ctx, resolveSettingColor(state), colorMap, x0, y0, w, h, borderFabricCache);
+
+  for (const { a, b, block } of layout.blocks) {
+    if (isCoveredCell(block)) continue;
+    const c = onPointCenter({ a, b }, cellSize);
+    ctx.save();
+    ctx.translate(x0 + c.x, y0 + c.y);
+    ctx.rotate(Math.PI / 4);
+    drawBlock(ctx, block, -cellSize / 2, -cellSize / 2, cellSize, colorMap);
+    ctx.restore();
+  }
+
+  if (includeGrid) {
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+    ctx.lineWidth = 1;
+    for (const pos of [...layout.blocks, ...layout.sideTriangles, ...layout.cornerTriangles]) {
+      const c = onPointCenter(pos, cellSize);
+      const x = x0 + c.x;
+      const y = y0 + c.y;
+      ctx.beginPath();
+      ctx.moveTo(x, y - half);
+      ctx.lineTo(x + half, y);
+      ctx.lineTo(x, y + half);
+      ctx.lineTo(x - half, y);
+      ctx.closePath();
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+}
+
+// Fill sashing strips one line at a time. Strips thicker than one band (where
+// a short column or row of offset tiles is made up at the edge) repeat the lines.
+function drawSashing(
+  ctx: CanvasRenderingContext2D,
+  state: AppState,
+  rects: SashingRects,
+  x0: number,
+  y0: number,
+  lineCount: number,
+  lineWidth: number,
+  colorMap: ColorToSwatchMap | undefined
+): void {
+  const lineColor = (i: number) => state.sashingBorder.colors[i % lineCount] || "#888888";
+
+  for (const r of rects.vertical) {
+    for (let i = 0; i * lineWidth < r.width; i++) {
+      const w = Math.min(lineWidth, r.width - i * lineWidth);
+      fillRectWithSwatch(ctx, lineColor(i), colorMap, x0 + r.x + i * lineWidth, y0 + r.y, w, r.height, borderFabricCache);
+    }
+  }
+
+  for (const r of rects.horizontal) {
+    for (let i = 0; i * lineWidth < r.height; i++) {
+      const h = Math.min(lineWidth, r.height - i * lineWidth);
+      fillRectWithSwatch(ctx, lineColor(i), colorMap, x0 + r.x, y0 + r.y + i * lineWidth, r.width, h, borderFabricCache);
+    }
+  }
+
+  // Cornerstones (intersection squares)
+  const cornerstoneColor = state.sashingBorder.cornerstoneColor;
+  if (cornerstoneColor) {
+    for (const r of rects.cornerstones) {
+      fillRectWithSwatch(ctx, cornerstoneColor, colorMap, x0 + r.x, y0 + r.y, r.width, r.height, borderFabricCache);
+    }
+  }
+}
+
+// Outline every cell in one path, so shared edges aren't darkened twice.
+// Cells are outlined one by one because offset tiles stagger the grid lines.
+function strokeCellGrid(
+  ctx: CanvasRenderingContext2D,
+  rows: number,
+  cols: number,
+  getBlockPos: (row: number, col: number) => { x: number; y: number },
+  cellSize: number
+): void {
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const pos = getBlockPos(row, col);
+      ctx.rect(pos.x, pos.y, cellSize, cellSize);
+    }
+  }
+  ctx.stroke();
+}
+
+/** Where render() drew the grid's cells, in CSS pixels */
+export interface GridGeometry {
+  rows: number;
+  cols: number;
+  cellSize: number;
+  cellPos: (row: number, col: number) => { x: number; y: number };
+}
+
+/** Grid cell under a point on the canvas, if any */
+export function cellAtPoint(geometry: GridGeometry, x: number, y: number): { row: number; col: number } | null {
+  for (let row = 0; row < geometry.rows; row++) {
+    for (let col = 0; col < geometry.cols; col++) {
+      const pos = geometry.cellPos(row, col);
+      if (x >= pos.x && x < pos.x + geometry.cellSize && y >= pos.y && y < pos.y + geometry.cellSize) {
+        return { row, col };
+      }
+    }
+  }
+  return null;
+}
+
+/** Mark locked cells over a rendered grid: a dashed outline and a corner tab */
+export function drawLockMarkers(
+  canvas: HTMLCanvasElement,
+  geometry: GridGeometry,
+  cells: { row: number; col: number }[]
+): void {
+  const ctx = canvas.getContext("2d")!;
+  const size = geometry.cellSize;
+  const tab = Math.max(4, size * 0.22);
+  ctx.save();
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 3]);
+  for (const { row, col } of cells) {
+    const { x, y } = geometry.cellPos(row, col);
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.9)";
+    ctx.strokeRect(x + 1, y + 1, size - 2, size - 2);
+    ctx.fillStyle = "rgba(26, 26, 46, 0.85)";
+    ctx.beginPath();
+    ctx.moveTo(x + size, y);
+    ctx.lineTo(x + size, y + tab);
+    ctx.lineTo(x + size - tab, y);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+/** Draw the quilt; returns where the cells went, or null when nothing was
+ *  drawn on the square grid (an empty grid or blocks on point) */
 export function render(
   canvas: HTMLCanvasElement,
   grid: QuiltBlock[][],
   state: AppState,
   colorMap?: ColorToSwatchMap
-): void {
+): GridGeometry | null {
   const ctx = canvas.getContext("2d")!;
 
   // HiDPI support — collapse canvas before measuring so it doesn't inflate the container
@@ -71,29 +245,31 @@ export function render(
   ctx.fillStyle = "#1a1a2e";
   ctx.fillRect(0, 0, displayWidth, displayHeight);
 
-  if (grid.length === 0 || grid[0].length === 0) return;
+  if (grid.length === 0 || grid[0].length === 0) return null;
 
   const rows = grid.length;
   const cols = grid[0].length;
+
+  // On point, the grid area is measured along the block diagonals
+  const onPoint = !!state.onPoint;
+  const area = onPoint ? onPointSize(cols, rows) : { width: cols, height: rows };
   
-  // Border configuration
+  // Border configuration (no sashing between on-point blocks)
   const outerLineCount = state.outerBorder?.lineCount || 0;
-  const sashingLineCount = state.sashingBorder?.lineCount || 0;
+  const sashingLineCount = onPoint ? 0 : state.sashingBorder?.lineCount || 0;
   const outerWidthFrac = state.outerBorder?.widthFraction || 0.25;
   const sashingWidthFrac = state.sashingBorder?.widthFraction || 0.25;
   
-  const repW = state.repeatWidth > 0 ? Math.min(state.repeatWidth, cols) : cols;
-  const repH = state.repeatHeight > 0 ? Math.min(state.repeatHeight, rows) : rows;
+  const repeat = repeatLayout(state, rows, cols);
   
-  // Count sashing gaps
-  const sashingGapsX = repW > 0 ? Math.floor((cols - 1) / repW) : 0;
-  const sashingGapsY = repH > 0 ? Math.floor((rows - 1) / repH) : 0;
+  // Count sashing gaps (the most crossed by any row or column when tiles are offset)
+  const { x: sashingGapsX, y: sashingGapsY } = sashingGaps(repeat);
   
   // Calculate cell size first (approximate), then adjust for borders
   const padding = 20;
   const approxCellSize = Math.floor(Math.min(
-    (displayWidth - padding * 2) / (cols + outerLineCount * outerWidthFrac * 2 + sashingGapsX * sashingLineCount * sashingWidthFrac),
-    (displayHeight - padding * 2) / (rows + outerLineCount * outerWidthFrac * 2 + sashingGapsY * sashingLineCount * sashingWidthFrac)
+    (displayWidth - padding * 2) / (area.width + outerLineCount * outerWidthFrac * 2 + sashingGapsX * sashingLineCount * sashingWidthFrac),
+    (displayHeight - padding * 2) / (area.height + outerLineCount * outerWidthFrac * 2 + sashingGapsY * sashingLineCount * sashingWidthFrac)
   ));
   
   // Border widths based on cell size
@@ -107,11 +283,11 @@ export function render(
   // Recalculate cell size with actual border widths
   const availW = displayWidth - padding * 2 - totalOuterBorder * 2 - totalSashingX;
   const availH = displayHeight - padding * 2 - totalOuterBorder * 2 - totalSashingY;
-  const cellSize = Math.floor(Math.min(availW / cols, availH / rows));
+  const cellSize = Math.floor(Math.min(availW / area.width, availH / area.height));
 
   // Total dimensions
-  const gridW = cellSize * cols + totalSashingX;
-  const gridH = cellSize * rows + totalSashingY;
+  const gridW = Math.round(cellSize * area.width) + totalSashingX;
+  const gridH = Math.round(cellSize * area.height) + totalSashingY;
   const totalW = gridW + totalOuterBorder * 2;
   const totalH = gridH + totalOuterBorder * 2;
   
@@ -157,96 +333,45 @@ export function render(
   const gridStartX = startX + totalOuterBorder;
   const gridStartY = startY + totalOuterBorder;
 
+  if (onPoint) {
+    drawOnPoint(ctx, grid, state, gridStartX, gridStartY, cellSize, colorMap, true);
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(startX, startY, totalW, totalH);
+    return null;
+  }
+
   // Helper to get block position accounting for sashing
+  const sashingBand = sashingLineCount * sashingLineWidth;
   function getBlockPos(row: number, col: number): { x: number; y: number } {
-    const sashingBeforeX = repW > 0 ? Math.floor(col / repW) : 0;
-    const sashingBeforeY = repH > 0 ? Math.floor(row / repH) : 0;
-    return {
-      x: gridStartX + col * cellSize + sashingBeforeX * sashingLineCount * sashingLineWidth,
-      y: gridStartY + row * cellSize + sashingBeforeY * sashingLineCount * sashingLineWidth,
-    };
+    const origin = cellOrigin(repeat, row, col, cellSize, sashingBand);
+    return { x: gridStartX + origin.x, y: gridStartY + origin.y };
   }
 
   // Draw sashing (between repeat blocks)
   if (sashingLineCount > 0 && state.sashingBorder?.colors) {
-    ctx.save();
-    
-    // Vertical sashing
-    if (repW > 0) {
-      for (let col = repW; col < cols; col += repW) {
-        const pos = getBlockPos(0, col);
-        const sashX = pos.x - sashingLineCount * sashingLineWidth;
-        
-        for (let i = 0; i < sashingLineCount; i++) {
-          const color = state.sashingBorder.colors[i] || "#888888";
-          fillRectWithSwatch(ctx, color, colorMap, sashX + i * sashingLineWidth, gridStartY, sashingLineWidth, gridH, borderFabricCache);
-        }
-      }
-    }
-    
-    // Horizontal sashing
-    if (repH > 0) {
-      for (let row = repH; row < rows; row += repH) {
-        const pos = getBlockPos(row, 0);
-        const sashY = pos.y - sashingLineCount * sashingLineWidth;
-        
-        for (let i = 0; i < sashingLineCount; i++) {
-          const color = state.sashingBorder.colors[i] || "#888888";
-          fillRectWithSwatch(ctx, color, colorMap, gridStartX, sashY + i * sashingLineWidth, gridW, sashingLineWidth, borderFabricCache);
-        }
-      }
-    }
-    
-    // Cornerstones (intersection squares)
-    const cornerstoneColor = state.sashingBorder.cornerstoneColor;
-    if (cornerstoneColor && repW > 0 && repH > 0) {
-      const cornerSize = sashingLineCount * sashingLineWidth;
-      
-      for (let row = repH; row < rows; row += repH) {
-        for (let col = repW; col < cols; col += repW) {
-          const pos = getBlockPos(row, col);
-          const cornerX = pos.x - cornerSize;
-          const cornerY = pos.y - cornerSize;
-          fillRectWithSwatch(ctx, cornerstoneColor, colorMap, cornerX, cornerY, cornerSize, cornerSize, borderFabricCache);
-        }
-      }
-    }
-    
-    ctx.restore();
+    const rects = sashingRects(repeat, cellSize, sashingBand);
+    drawSashing(ctx, state, rects, gridStartX, gridStartY, sashingLineCount, sashingLineWidth, colorMap);
   }
 
-  // Draw blocks
+  // Draw blocks (covered cells are drawn by their two-cell unit)
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
+      if (isCoveredCell(grid[row][col])) continue;
       const pos = getBlockPos(row, col);
       drawBlock(ctx, grid[row][col], pos.x, pos.y, cellSize, colorMap);
     }
   }
 
   // Draw grid lines
-  ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
-  ctx.lineWidth = 1;
-  for (let row = 0; row <= rows; row++) {
-    const pos = getBlockPos(row, 0);
-    const endPos = getBlockPos(row, cols - 1);
-    ctx.beginPath();
-    ctx.moveTo(pos.x, pos.y);
-    ctx.lineTo(endPos.x + cellSize, pos.y);
-    ctx.stroke();
-  }
-  for (let col = 0; col <= cols; col++) {
-    const pos = getBlockPos(0, col);
-    const endPos = getBlockPos(rows - 1, col);
-    ctx.beginPath();
-    ctx.moveTo(pos.x, pos.y);
-    ctx.lineTo(pos.x, endPos.y + cellSize);
-    ctx.stroke();
-  }
+  strokeCellGrid(ctx, rows, cols, getBlockPos, cellSize);
 
   // Outer border stroke
   ctx.strokeStyle = "rgba(0, 0, 0, 0.4)";
   ctx.lineWidth = 2;
   ctx.strokeRect(startX, startY, totalW, totalH);
+
+  return { rows, cols, cellSize, cellPos: getBlockPos };
 }
 
 export function renderToCanvas(
@@ -276,18 +401,20 @@ export function renderToCanvas(
     return canvas;
   }
 
-  // Border configuration
+  // On point, the grid area is measured along the block diagonals
+  const onPoint = !!state.onPoint;
+  const area = onPoint ? onPointSize(cols, rows) : { width: cols, height: rows };
+
+  // Border configuration (no sashing between on-point blocks)
   const outerLineCount = state.outerBorder?.lineCount || 0;
-  const sashingLineCount = state.sashingBorder?.lineCount || 0;
+  const sashingLineCount = onPoint ? 0 : state.sashingBorder?.lineCount || 0;
   const outerWidthFrac = state.outerBorder?.widthFraction || 0.25;
   const sashingWidthFrac = state.sashingBorder?.widthFraction || 0.25;
   
-  const repW = state.repeatWidth > 0 ? Math.min(state.repeatWidth, cols) : cols;
-  const repH = state.repeatHeight > 0 ? Math.min(state.repeatHeight, rows) : rows;
+  const repeat = repeatLayout(state, rows, cols);
   
-  // Count sashing gaps
-  const sashingGapsX = repW > 0 ? Math.floor((cols - 1) / repW) : 0;
-  const sashingGapsY = repH > 0 ? Math.floor((rows - 1) / repH) : 0;
+  // Count sashing gaps (the most crossed by any row or column when tiles are offset)
+  const { x: sashingGapsX, y: sashingGapsY } = sashingGaps(repeat);
   
   // Border widths based on cell size
   const outerLineWidth = Math.round(baseCellSize * outerWidthFrac);
@@ -298,8 +425,8 @@ export function renderToCanvas(
   const totalSashingY = sashingGapsY * sashingLineCount * sashingLineWidth;
 
   // Total dimensions
-  const gridW = baseCellSize * cols + totalSashingX;
-  const gridH = baseCellSize * rows + totalSashingY;
+  const gridW = Math.round(baseCellSize * area.width) + totalSashingX;
+  const gridH = Math.round(baseCellSize * area.height) + totalSashingY;
   const totalW = gridW + totalOuterBorder * 2;
   const totalH = gridH + totalOuterBorder * 2;
 
@@ -346,61 +473,31 @@ export function renderToCanvas(
   const gridStartX = totalOuterBorder;
   const gridStartY = totalOuterBorder;
 
+  if (onPoint) {
+    drawOnPoint(ctx, grid, state, gridStartX, gridStartY, baseCellSize, colorMap, includeGrid);
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(0, 0, totalW, totalH);
+    return canvas;
+  }
+
   // Helper to get block position accounting for sashing
+  const sashingBand = sashingLineCount * sashingLineWidth;
   function getBlockPos(row: number, col: number): { x: number; y: number } {
-    const sashingBeforeX = repW > 0 ? Math.floor(col / repW) : 0;
-    const sashingBeforeY = repH > 0 ? Math.floor(row / repH) : 0;
-    return {
-      x: gridStartX + col * baseCellSize + sashingBeforeX * sashingLineCount * sashingLineWidth,
-      y: gridStartY + row * baseCellSize + sashingBeforeY * sashingLineCount * sashingLineWidth,
-    };
+    const origin = cellOrigin(repeat, row, col, baseCellSize, sashingBand);
+    return { x: gridStartX + origin.x, y: gridStartY + origin.y };
   }
 
   // Draw sashing
   if (sashingLineCount > 0 && state.sashingBorder?.colors) {
-    // Vertical sashing
-    if (repW > 0) {
-      for (let col = repW; col < cols; col += repW) {
-        const pos = getBlockPos(0, col);
-        const sashX = pos.x - sashingLineCount * sashingLineWidth;
-        
-        for (let i = 0; i < sashingLineCount; i++) {
-          const color = state.sashingBorder.colors[i] || "#888888";
-          fillRectWithSwatch(ctx, color, colorMap, sashX + i * sashingLineWidth, gridStartY, sashingLineWidth, gridH, borderFabricCache);
-        }
-      }
-    }
-    
-    // Horizontal sashing
-    if (repH > 0) {
-      for (let row = repH; row < rows; row += repH) {
-        const pos = getBlockPos(row, 0);
-        const sashY = pos.y - sashingLineCount * sashingLineWidth;
-        
-        for (let i = 0; i < sashingLineCount; i++) {
-          const color = state.sashingBorder.colors[i] || "#888888";
-          fillRectWithSwatch(ctx, color, colorMap, gridStartX, sashY + i * sashingLineWidth, gridW, sashingLineWidth, borderFabricCache);
-        }
-      }
-    }
-    
-    // Cornerstones
-    const cornerstoneColor = state.sashingBorder.cornerstoneColor;
-    if (cornerstoneColor && repW > 0 && repH > 0) {
-      const cornerSize = sashingLineCount * sashingLineWidth;
-      
-      for (let row = repH; row < rows; row += repH) {
-        for (let col = repW; col < cols; col += repW) {
-          const pos = getBlockPos(row, col);
-          fillRectWithSwatch(ctx, cornerstoneColor, colorMap, pos.x - cornerSize, pos.y - cornerSize, cornerSize, cornerSize, borderFabricCache);
-        }
-      }
-    }
+    const rects = sashingRects(repeat, baseCellSize, sashingBand);
+    drawSashing(ctx, state, rects, gridStartX, gridStartY, sashingLineCount, sashingLineWidth, colorMap);
   }
 
-  // Draw blocks
+  // Draw blocks (covered cells are drawn by their two-cell unit)
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
+      if (isCoveredCell(grid[row][col])) continue;
       const pos = getBlockPos(row, col);
       drawBlock(ctx, grid[row][col], pos.x, pos.y, baseCellSize, colorMap);
     }
@@ -408,24 +505,7 @@ export function renderToCanvas(
 
   // Draw grid lines
   if (includeGrid) {
-    ctx.strokeStyle = "rgba(0, 0, 0, 0.15)";
-    ctx.lineWidth = 1;
-    for (let row = 0; row <= rows; row++) {
-      const pos = getBlockPos(row, 0);
-      const endPos = getBlockPos(row, cols - 1);
-      ctx.beginPath();
-      ctx.moveTo(pos.x, pos.y);
-      ctx.lineTo(endPos.x + baseCellSize, pos.y);
-      ctx.stroke();
-    }
-    for (let col = 0; col <= cols; col++) {
-      const pos = getBlockPos(0, col);
-      const endPos = getBlockPos(rows - 1, col);
-      ctx.beginPath();
-      ctx.moveTo(pos.x, pos.y);
-      ctx.lineTo(pos.x, endPos.y + baseCellSize);
-      ctx.stroke();
-    }
+    strokeCellGrid(ctx, rows, cols, getBlockPos, baseCellSize);
   }
 
   // Outer border stroke
@@ -440,9 +520,13 @@ function points(coords: Array<[number, number]>): string {
   return coords.map(([x, y]) => `${x},${y}`).join(" ");
 }
 
-function svgBlock(block: QuiltBlock, x: number, y: number, size: number): string {
-  const cx = x + size / 2;
-  const cy = y + size / 2;
+function svgBlock(block: QuiltBlock, cellX: number, cellY: number, size: number): string {
+  // Geometry is written unrotated around the footprint centre, then rotated into place
+  const { cols, rows } = getBlockFootprint(block);
+  const cx = cellX + (cols * size) / 2;
+  const cy = cellY + (rows * size) / 2;
+  const x = cx - (isSpanShape(block.shape) ? size : size / 2);
+  const y = cy - size / 2;
   const transform = block.rotation
     ? ` transform="rotate(${block.rotation} ${cx} ${cy})"`
     : "";
@@ -528,6 +612,107 @@ function svgBlock(block: QuiltBlock, x: number, y: number, size: number): string
       );
       break;
     }
+    case ShapeType.DrunkardsPath: {
+      const radius = size * DRUNKARDS_PATH_RADIUS;
+      parts.push(`<rect x="${x}" y="${y}" width="${size}" height="${size}" fill="${block.colors[1]}" />`);
+      // Pie: quarter circle centred on the bottom-left corner
+      parts.push(
+        `<path d="M ${x} ${y + size} L ${x} ${y + size - radius} A ${radius} ${radius} 0 0 1 ${x + radius} ${y + size} Z" fill="${block.colors[0]}" />`
+      );
+      break;
+    }
+    case ShapeType.Snowball: {
+      const leg = size * SNOWBALL_CORNER;
+      parts.push(`<rect x="${x}" y="${y}" width="${size}" height="${size}" fill="${block.colors[0]}" />`);
+      const corners: Array<Array<[number, number]>> = [
+        [[x, y], [x + leg, y], [x, y + leg]],
+        [[x + size, y], [x + size, y + leg], [x + size - leg, y]],
+        [[x + size, y + size], [x + size - leg, y + size], [x + size, y + size - leg]],
+        [[x, y + size], [x, y + size - leg], [x + leg, y + size]],
+      ];
+      for (const corner of corners) {
+        parts.push(`<polygon points="${points(corner)}" fill="${block.colors[1]}" />`);
+      }
+      break;
+    }
+    case ShapeType.FourPatch:
+    case ShapeType.NinePatch: {
+      const subgrid = block.subgrid ?? [];
+      const subSize = size / (subgrid.length || 1);
+      subgrid.forEach((row, r) => {
+        row.forEach((child, c) => {
+          parts.push(svgBlock(child, x + c * subSize, y + r * subSize, subSize));
+        });
+      });
+      break;
+    }
+    case ShapeType.Rectangle:
+      parts.push(`<rect x="${x}" y="${y}" width="${size * 2}" height="${size}" fill="${block.colors[0]}" />`);
+      break;
+    case ShapeType.FlyingGeese: {
+      const width = size * 2;
+      // Goose
+      parts.push(
+        `<polygon points="${points([
+          [x, y + size],
+          [x + width, y + size],
+          [x + size, y],
+        ])}" fill="${block.colors[0]}" />`
+      );
+      // Left sky
+      parts.push(
+        `<polygon points="${points([
+          [x, y],
+          [x + size, y],
+          [x, y + size],
+        ])}" fill="${block.colors[1]}" />`
+      );
+      // Right sky
+      parts.push(
+        `<polygon points="${points([
+          [x + size, y],
+          [x + width, y],
+          [x + width, y + size],
+        ])}" fill="${block.colors[2]}" />`
+      );
+      break;
+    }
+    case ShapeType.HRT: {
+      const width = size * 2;
+      parts.push(
+        `<polygon points="${points([
+          [x, y],
+          [x, y + size],
+          [x + width, y + size],
+        ])}" fill="${block.colors[0]}" />`
+      );
+      parts.push(
+        `<polygon points="${points([
+          [x, y],
+          [x + width, y],
+          [x + width, y + size],
+        ])}" fill="${block.colors[1]}" />`
+      );
+      break;
+    }
+    case ShapeType.HRTMirror: {
+      const width = size * 2;
+      parts.push(
+        `<polygon points="${points([
+          [x + width, y],
+          [x + width, y + size],
+          [x, y + size],
+        ])}" fill="${block.colors[0]}" />`
+      );
+      parts.push(
+        `<polygon points="${points([
+          [x, y],
+          [x + width, y],
+          [x, y + size],
+        ])}" fill="${block.colors[1]}" />`
+      );
+      break;
+    }
   }
 
   return `<g${transform}>${parts.join("")}</g>`;
@@ -554,6 +739,10 @@ export function renderSvg(
     return `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0"></svg>`;
   }
 
+  if (state.onPoint) {
+    return renderOnPointSvg(grid, state, cellSize, includeGrid);
+  }
+
   const width = cols * cellSize;
   const height = rows * cellSize;
   const parts: string[] = [
@@ -566,6 +755,7 @@ export function renderSvg(
 
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < cols; col++) {
+      if (isCoveredCell(grid[row][col])) continue;
       const x = col * cellSize;
       const y = row * cellSize;
       parts.push(svgBlock(grid[row][col], x, y, cellSize));
@@ -589,23 +779,26 @@ export function renderSvg(
   }
 
   if (includeRepeat) {
-    const repW = state.repeatWidth > 0 ? Math.min(state.repeatWidth, cols) : 0;
-    const repH = state.repeatHeight > 0 ? Math.min(state.repeatHeight, rows) : 0;
+    // Tile boundaries are zero-width sashing strips; offset repeats stagger them
+    const { vertical, horizontal } = sashingRects(repeatLayout(state, rows, cols), cellSize, 0);
     const stroke = "rgba(255, 255, 255, 0.35)";
-    if (repH > 0) {
-      for (let row = repH; row < rows; row += repH) {
-        const y = row * cellSize;
-        parts.push(
-          `<line x1="0" y1="${y}" x2="${width}" y2="${y}" stroke="${stroke}" stroke-width="2" />`
-        );
-      }
+    for (const r of [...horizontal, ...vertical]) {
+      parts.push(
+        `<line x1="${r.x}" y1="${r.y}" x2="${r.x + r.width}" y2="${r.y + r.height}" stroke="${stroke}" stroke-width="2" />`
+      );
     }
-    if (repW > 0) {
-      for (let col = repW; col < cols; col += repW) {
-        const x = col * cellSize;
-        parts.push(
-          `<line x1="${x}" y1="0" x2="${x}" y2="${height}" stroke="${stroke}" stroke-width="2" />`
-        );
+    // Within a row quilt's bands, each band's own tile repeats along the row
+    if (state.rowQuilt?.enabled) {
+      for (const { band, start } of bandRanges(state.rowQuilt.bands)) {
+        if (start >= rows || band.tileWidth < 1) continue;
+        const y1 = start * cellSize;
+        const y2 = Math.min(rows, start + band.height) * cellSize;
+        for (let col = band.tileWidth; col < cols; col += band.tileWidth) {
+          const x = col * cellSize;
+          parts.push(
+            `<line x1="${x}" y1="${y1}" x2="${x}" y2="${y2}" stroke="${stroke}" stroke-width="1" stroke-dasharray="4 3" />`
+          );
+        }
       }
     }
   }
@@ -616,3 +809,43 @@ export function renderSvg(
   parts.push("</svg>");
   return parts.join("");
 }
+
+function renderOnPointSvg(grid: QuiltBlock[][], state: AppState, cellSize: number, includeGrid: boolean): string {
+  const layout = buildOnPointLayout(grid);
+  const area = onPointSize(layout.across, layout.down);
+  const width = +(area.width * cellSize).toFixed(3);
+  const height = +(area.height * cellSize).toFixed(3);
+  const half = (cellSize * Math.SQRT2) / 2;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><clipPath id="quilt-area"><rect x="0" y="0" width="${width}" height="${height}" /></clipPath></defs>`,
+    `<g clip-path="url(#quilt-area)">`,
+    // Setting triangles are the parts of this the blocks leave uncovered
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="${resolveSettingColor(state)}" />`,
+  ];
+
+  for (const { a, b, block } of layout.blocks) {
+    if (isCoveredCell(block)) continue;
+    const { x, y } = onPointCenter({ a, b }, cellSize);
+    parts.push(
+      `<g transform="rotate(45 ${x} ${y})">${svgBlock(block, x - cellSize / 2, y - cellSize / 2, cellSize)}</g>`
+    );
+  }
+
+  if (includeGrid) {
+    for (const pos of [...layout.blocks, ...layout.sideTriangles, ...layout.cornerTriangles]) {
+      const { x, y } = onPointCenter(pos, cellSize);
+      parts.push(
+        `<polygon points="${points([[x, y - half], [x + half, y], [x, y + half], [x - half, y]])}" fill="none" stroke="rgba(0, 0, 0, 0.15)" stroke-width="1" />`
+      );
+    }
+  }
+
+  parts.push("</g>");
+  parts.push(
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="none" stroke="rgba(0, 0, 0, 0.4)" stroke-width="2" />`
+  );
+  parts.push("</svg>");
+  return parts.join("");
+}
@@ -0,0 +1,195 @@
+// Placement of repeat tiles across the grid. In a half-drop every other
+// column of tiles slides down by half a tile; in a brick repeat every other
+// row of tiles slides right by half a tile. Tiles hanging off an edge are
+// cropped, so the tile boundaries (and any sashing sewn along them) are
+// staggered instead of running straight across the quilt. A row quilt's
+// boundaries are the lines between its bands.
+
+import { type AppState, RepeatOffset } from "./types";
+import { bandRanges } from "./row-quilt";
+
+export interface RepeatLayout {
+  rows: number;
+  cols: number;
+  tileW: number;
+  tileH: number;
+  offset: RepeatOffset;
+  // Row quilts: first row of each band. The bands are the only boundaries.
+  bandStarts?: number[];
+}
+
+// Which copy of the tile a grid cell belongs to, and the cell within that tile.
+// Copies cropped at the top or left edge have index -1.
+export interface TilePosition {
+  tileRow: number;
+  tileCol: number;
+  row: number;
+  col: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SashingRects {
+  vertical: Rect[];
+  horizontal: Rect[];
+  cornerstones: Rect[];
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+export function repeatLayout(state: AppState, rows: number, cols: number): RepeatLayout {
+  // A medallion is one design, not a repeat: no tile boundaries or sashing
+  if (state.medallion?.enabled) {
+    return { rows, cols, tileW: cols, tileH: rows, offset: RepeatOffset.None };
+  }
+  if (state.rowQuilt?.enabled) {
+    const bandStarts = bandRanges(state.rowQuilt.bands).map((r) => r.start);
+    return { rows, cols, tileW: cols, tileH: rows, offset: RepeatOffset.None, bandStarts };
+  }
+  return {
+    rows,
+    cols,
+    tileW: state.repeatWidth > 0 ? Math.min(state.repeatWidth, cols) : cols,
+    tileH: state.repeatHeight > 0 ? Math.min(state.repeatHeight, rows) : rows,
+    offset: state.repeatOffset ?? RepeatOffset.None,
+  };
+}
+
+/** Rows the tiles in this grid column are dropped by */
+function columnShift(layout: RepeatLayout, col: number): number {
+  if (layout.offset !== RepeatOffset.HalfDrop) return 0;
+  return mod(Math.floor(col / layout.tileW), 2) === 1 ? Math.floor(layout.tileH / 2) : 0;
+}
+
+/** Columns the tiles in this grid row are pushed right by */
+function rowShift(layout: RepeatLayout, row: number): number {
+  if (layout.offset !== RepeatOffset.Brick) return 0;
+  return mod(Math.floor(row / layout.tileH), 2) === 1 ? Math.floor(layout.tileW / 2) : 0;
+}
+
+export function tilePosition(layout: RepeatLayout, row: number, col: number): TilePosition {
+  const r = row - columnShift(layout, col);
+  const c = col - rowShift(layout, row);
+  return {
+    tileRow: Math.floor(r / layout.tileH),
+    tileCol: Math.floor(c / layout.tileW),
+    row: mod(r, layout.tileH),
+    col: mod(c, layout.tileW),
+  };
+}
+
+/** Alternate-block settings checkerboard the tiles: odd positions take the second tile */
+export function isAlternateTile(pos: TilePosition): boolean {
+  return mod(pos.tileRow + pos.tileCol, 2) === 1;
+}
+
+// Tile boundaries sit at rows k ≡ shift (mod tileH); count those with 0 < k ≤ row
+function rowBreaksBefore(layout: RepeatLayout, row: number, col: number): number {
+  if (layout.bandStarts) return layout.bandStarts.filter((k) => k > 0 && k <= row).length;
+  const shift = columnShift(layout, col);
+  return Math.floor((row - shift) / layout.tileH) - Math.floor(-shift / layout.tileH);
+}
+
+function colBreaksBefore(layout: RepeatLayout, row: number, col: number): number {
+  const shift = rowShift(layout, row);
+  return Math.floor((col - shift) / layout.tileW) - Math.floor(-shift / layout.tileW);
+}
+
+/** Most tile boundaries crossed along any row (x) and any column (y) */
+export function sashingGaps(layout: RepeatLayout): { x: number; y: number } {
+  let x = 0;
+  let y = 0;
+  for (let row = 0; row < layout.rows; row++) x = Math.max(x, colBreaksBefore(layout, row, layout.cols - 1));
+  for (let col = 0; col < layout.cols; col++) y = Math.max(y, rowBreaksBefore(layout, layout.rows - 1, col));
+  return { x, y };
+}
+
+/** Top-left corner of a cell relative to the grid, with `band` pixels of
+ *  sashing at every tile boundary before it */
+export function cellOrigin(
+  layout: RepeatLayout,
+  row: number,
+  col: number,
+  cellSize: number,
+  band: number
+): { x: number; y: number } {
+  return {
+    x: col * cellSize + colBreaksBefore(layout, row, col) * band,
+    y: row * cellSize + rowBreaksBefore(layout, row, col) * band,
+  };
+}
+
+function transposeLayout(layout: RepeatLayout): RepeatLayout {
+  return {
+    rows: layout.cols,
+    cols: layout.rows,
+    tileW: layout.tileH,
+    tileH: layout.tileW,
+    offset: layout.offset === RepeatOffset.Brick ? RepeatOffset.HalfDrop : layout.offset,
+  };
+}
+
+function transposeRect(r: Rect): Rect {
+  return { x: r.y, y: r.x, width: r.height, height: r.width };
+}
+
+// Sashing for layouts whose tile columns are straight (plain and half-drop).
+// Vertical strips run the full height; horizontal strips run across one tile
+// column each. A column with fewer boundaries than the tallest one is made up
+// with sashing at the bottom.
+function columnSashing(layout: RepeatLayout, cellSize: number, band: number): SashingRects {
+  const { rows, cols, tileW } = layout;
+  const gridH = rows * cellSize + sashingGaps(layout).y * band;
+  const result: SashingRects = { vertical: [], horizontal: [], cornerstones: [] };
+  const corners = new Map<string, Rect>();
+  const addCorner = (x: number, y: number) => corners.set(`${x},${y}`, { x, y, width: band, height: band });
+
+  for (let c0 = 0; c0 < cols; c0 += tileW) {
+    const c1 = Math.min(c0 + tileW, cols);
+    const left = cellOrigin(layout, 0, c0, cellSize, band).x;
+    const right = cellOrigin(layout, 0, c1 - 1, cellSize, band).x + cellSize;
+
+    if (c0 > 0) {
+      result.vertical.push({ x: left - band, y: 0, width: band, height: gridH });
+    }
+
+    for (let row = 1; row < rows; row++) {
+      if (rowBreaksBefore(layout, row, c0) === rowBreaksBefore(layout, row - 1, c0)) continue;
+      const y = cellOrigin(layout, row, c0, cellSize, band).y - band;
+      result.horizontal.push({ x: left, y, width: right - left, height: band });
+      if (c0 > 0) addCorner(left - band, y);
+      if (c1 < cols) addCorner(right, y);
+    }
+
+    const bottom = cellOrigin(layout, rows - 1, c0, cellSize, band).y + cellSize;
+    if (bottom < gridH) {
+      result.horizontal.push({ x: left, y: bottom, width: right - left, height: gridH - bottom });
+    }
+  }
+
+  result.cornerstones = [...corners.values()];
+  return result;
+}
+
+/** Sashing strips (each `band` thick) and cornerstones along the tile
+ *  boundaries, relative to the grid. With band 0 the strips are the
+ *  boundary lines themselves. */
+export function sashingRects(layout: RepeatLayout, cellSize: number, band: number): SashingRects {
+  if (layout.rows === 0 || layout.cols === 0) return { vertical: [], horizontal: [], cornerstones: [] };
+  if (layout.offset !== RepeatOffset.Brick) return columnSashing(layout, cellSize, band);
+
+  // A brick repeat is a half-drop on its side
+  const t = columnSashing(transposeLayout(layout), cellSize, band);
+  return {
+    vertical: t.horizontal.map(transposeRect),
+    horizontal: t.vertical.map(transposeRect),
+    cornerstones: t.cornerstones.map(transposeRect),
+  };
+}
@@ -0,0 +1,25 @@
+// Row quilts: the quilt is a stack of horizontal bands, each with its own
+// repeat tile (band height × tile width) repeated across the quilt's width.
+// Sashing runs only between bands, as spacer strips.
+
+import type { AppState, RowBand } from "./types";
+
+export interface BandRange {
+  band: RowBand;
+  start: number; // first grid row of the band
+}
+
+/** Where each band starts, top to bottom */
+export function bandRanges(bands: RowBand[]): BandRange[] {
+  let start = 0;
+  return bands.map((band) => {
+    const range = { band, start };
+    start += band.height;
+    return range;
+  });
+}
+
+/** Grid rows taken by all the bands */
+export function rowQuiltHeight(state: AppState): number {
+  return state.rowQuilt.bands.reduce((sum, band) => sum + band.height, 0);
+}
@@ -1,4 +1,4 @@
-import { type QuiltBlock, ShapeType, type Swatch, isColorSwatch, isFabricSwatch } from "./types";
+import { type QuiltBlock, ShapeType, type Swatch, isColorSwatch, isFabricSwatch, isSpanShape } from "./types";
 
 // Cache for loaded fabric images
 const fabricImageCache = new Map<string, HTMLImageElement>();
@@ -52,6 +52,37 @@ function getOrLoadImage(dataUrl: string): HTMLImageElement | null {
   return null;
 }
 
+// Average colour of each loaded fabric image, for its lightness
+const fabricAverageCache = new Map<string, string>();
+
+/** Average colour of a fabric image as hex, or null until the image has
+ *  loaded (loading starts now) */
+export function fabricAverageColor(dataUrl: string): string | null {
+  const cached = fabricAverageCache.get(dataUrl);
+  if (cached) return cached;
+  if (typeof document === "undefined") return null;
+  const img = getOrLoadImage(dataUrl);
+  if (!img) return null;
+
+  const size = 16;
+  const sample = document.createElement("canvas");
+  sample.width = size;
+  sample.height = size;
+  const ctx = sample.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, size, size);
+  const data = ctx.getImageData(0, 0, size, size).data;
+  const sums = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sums[0] += data[i];
+    sums[1] += data[i + 1];
+    sums[2] += data[i + 2];
+  }
+  const average = "#" + sums.map((sum) => Math.round(sum / (size * size)).toString(16).padStart(2, "0")).join("").toUpperCase();
+  fabricAverageCache.set(dataUrl, average);
+  return average;
+}
+
 // Get or create a pattern for a fabric image
 export function getOrCreatePattern(
   ctx: CanvasRenderingContext2D, 
@@ -123,6 +154,18 @@ function fillWithSwatch(
 // Maps color hex strings to swatches (for fabric support)
 export type ColorToSwatchMap = Map<string, Swatch>;
 
+// Radius of the Drunkard's Path pie, as a fraction of the block size
+export const DRUNKARDS_PATH_RADIUS = 0.75;
+
+// Leg length of each Snowball corner triangle, as a fraction of the block size
+export const SNOWBALL_CORNER = 1 / 3;
+
+/** Number of grid cells a block covers, in its rotated orientation */
+export function getBlockFootprint(block: QuiltBlock): { cols: number; rows: number } {
+  if (!isSpanShape(block.shape)) return { cols: 1, rows: 1 };
+  return block.rotation % 180 === 0 ? { cols: 2, rows: 1 } : { cols: 1, rows: 2 };
+}
+
 export function drawBlock(
   ctx: CanvasRenderingContext2D,
   block: QuiltBlock,
@@ -131,10 +174,14 @@ export function drawBlock(
   size: number,
   colorMap?: ColorToSwatchMap
 ): void {
+  // Two-cell units are drawn 2 cells wide, then rotated into their footprint
+  const { cols, rows } = getBlockFootprint(block);
+  const baseWidth = isSpanShape(block.shape) ? size * 2 : size;
+
   ctx.save();
-  ctx.translate(x + size / 2, y + size / 2);
+  ctx.translate(x + (cols * size) / 2, y + (rows * size) / 2);
   ctx.rotate((block.rotation * Math.PI) / 180);
-  ctx.translate(-size / 2, -size / 2);
+  ctx.translate(-baseWidth / 2, -size / 2);
 
   // Convert colors to swatches using the color map
   const blockSwatches: Swatch[] = colorMap 
@@ -157,6 +204,28 @@ export function drawBlock(
     case ShapeType.HSTSplit:
       drawHSTSplit(ctx, blockSwatches, size);
       break;
+    case ShapeType.FlyingGeese:
+      drawFlyingGeese(ctx, blockSwatches, size);
+      break;
+    case ShapeType.HRT:
+      drawHRT(ctx, blockSwatches, size);
+      break;
+    case ShapeType.HRTMirror:
+      drawHRTMirror(ctx, blockSwatches, size);
+      break;
+    case ShapeType.Rectangle:
+      drawRectangle(ctx, blockSwatches, size);
+      break;
+    case ShapeType.DrunkardsPath:
+      drawDrunkardsPath(ctx, blockSwatches, size);
+      break;
+    case ShapeType.Snowball:
+      drawSnowball(ctx, blockSwatches, size);
+      break;
+    case ShapeType.FourPatch:
+    case ShapeType.NinePatch:
+      drawSubgrid(ctx, block.subgrid ?? [], size, colorMap);
+      break;
   }
 
   ctx.restore();
@@ -253,6 +322,141 @@ function drawQST(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number
   fillWithSwatch(ctx, swatches[3], 0, 0, size);
 }
 
+// Compound cell: each sub-block drawn at a fraction of the cell size
+function drawSubgrid(
+  ctx: CanvasRenderingContext2D,
+  subgrid: QuiltBlock[][],
+  size: number,
+  colorMap?: ColorToSwatchMap
+): void {
+  const subSize = size / (subgrid.length || 1);
+  subgrid.forEach((row, r) => {
+    row.forEach((child, c) => {
+      drawBlock(ctx, child, c * subSize, r * subSize, subSize, colorMap);
+    });
+  });
+}
+
+// Quarter-circle pie in the bottom-left corner, background fills the rest
+// colors: [pie, background]
+function drawDrunkardsPath(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  const radius = size * DRUNKARDS_PATH_RADIUS;
+
+  ctx.beginPath();
+  ctx.rect(0, 0, size, size);
+  fillWithSwatch(ctx, swatches[1], 0, 0, size);
+
+  ctx.beginPath();
+  ctx.moveTo(0, size);
+  ctx.arc(0, size, radius, -Math.PI / 2, 0);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+}
+
+// colors: [centre, corners]
+function drawSnowball(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  const leg = size * SNOWBALL_CORNER;
+
+  ctx.beginPath();
+  ctx.rect(0, 0, size, size);
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+
+  // All four corner triangles share one fill
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(leg, 0);
+  ctx.lineTo(0, leg);
+  ctx.closePath();
+  ctx.moveTo(size, 0);
+  ctx.lineTo(size, leg);
+  ctx.lineTo(size - leg, 0);
+  ctx.closePath();
+  ctx.moveTo(size, size);
+  ctx.lineTo(size - leg, size);
+  ctx.lineTo(size, size - leg);
+  ctx.closePath();
+  ctx.moveTo(0, size);
+  ctx.lineTo(0, size - leg);
+  ctx.lineTo(leg, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[1], 0, 0, size);
+}
+
+// --- Two-cell units: drawn unrotated as a (2 × size) by size rectangle ---
+
+function drawRectangle(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  ctx.beginPath();
+  ctx.rect(0, 0, size * 2, size);
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+}
+
+// colors: [goose, skyLeft, skyRight] — goose points up
+function drawFlyingGeese(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  const width = size * 2;
+
+  // Goose (large centre triangle)
+  ctx.beginPath();
+  ctx.moveTo(0, size);
+  ctx.lineTo(width, size);
+  ctx.lineTo(size, 0);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+
+  // Left sky triangle
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(size, 0);
+  ctx.lineTo(0, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[1], 0, 0, size);
+
+  // Right sky triangle
+  ctx.beginPath();
+  ctx.moveTo(size, 0);
+  ctx.lineTo(width, 0);
+  ctx.lineTo(width, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[2], 0, 0, size);
+}
+
+// colors: [bottomLeft, topRight] — diagonal runs top-left → bottom-right
+function drawHRT(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  const width = size * 2;
+
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(0, size);
+  ctx.lineTo(width, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(width, 0);
+  ctx.lineTo(width, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[1], 0, 0, size);
+}
+
+// colors: [bottomRight, topLeft] — diagonal runs bottom-left → top-right
+function drawHRTMirror(ctx: CanvasRenderingContext2D, swatches: Swatch[], size: number): void {
+  const width = size * 2;
+
+  ctx.beginPath();
+  ctx.moveTo(width, 0);
+  ctx.lineTo(width, size);
+  ctx.lineTo(0, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[0], 0, 0, size);
+
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(width, 0);
+  ctx.lineTo(0, size);
+  ctx.closePath();
+  fillWithSwatch(ctx, swatches[1], 0, 0, size);
+}
+
 // Legacy export for compatibility
 export function drawBlockLegacy(
   ctx: CanvasRenderingContext2D,
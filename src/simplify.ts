@@ -9,8 +9,34 @@ function colorEq(a: string, b: string): boolean {
  * Simplify blocks where adjacent triangles of the same color can be merged:
  * - HST with both colors the same → Square
  * - QST with 2+ adjacent triangles same color → HST or Square
+ * - Curved / cornered blocks (Drunkard's Path, Snowball) with both colors the same → Square
+ * - Compound cells: each sub-block is simplified; all one color → Square
  */
 export function simplifyBlock(block: QuiltBlock): QuiltBlock {
+  if (block.subgrid) {
+    const subgrid = block.subgrid.map(row => row.map(child => simplifyBlock(child)));
+    const children = subgrid.flat();
+    const first = children[0];
+    if (first && children.every(c => c.shape === ShapeType.Square && colorEq(c.colors[0], first.colors[0]))) {
+      return {
+        shape: ShapeType.Square,
+        colors: [first.colors[0]],
+        rotation: 0,
+      };
+    }
+    return { ...block, subgrid };
+  }
+
+  if (block.shape === ShapeType.DrunkardsPath || block.shape === ShapeType.Snowball) {
+    if (colorEq(block.colors[0], block.colors[1])) {
+      return {
+        shape: ShapeType.Square,
+        colors: [block.colors[0]],
+        rotation: 0,
+      };
+    }
+  }
+
   if (block.shape === ShapeType.HST) {
     // If both triangles are the same color, it's just a square
     if (colorEq(block.colors[0], block.colors[1])) {
@@ -1,4 +1,4 @@
-import { type AppState, ShapeType, SymmetryMode } from "./types";
+import { type AppState, Generator, ShapeType, SymmetryMode, RepeatOffset, RoundStyle, Tessellation, HexLayout, HexSymmetry } from "./types";
 
 type Listener = () => void;
 
@@ -31,6 +31,11 @@ export class Store {
       if (this._seedHistory.length > MAX_HISTORY) {
         this._seedHistory.length = MAX_HISTORY;
       }
+      // A bred tile and a recolour belong to the seed they were made for, and
+      // a seed saved without a colour seed is from before colours had their own
+      if (partial.bredTile === undefined) partial = { ...partial, bredTile: null };
+      if (partial.recolor === undefined) partial = { ...partial, recolor: [] };
+      if (partial.colorSeed === undefined) partial = { ...partial, colorSeed: null };
     }
     this.state = { ...this.state, ...partial };
     this.notify();
@@ -50,11 +55,25 @@ export class Store {
   }
 }
 
+// Shape ratios with every shape left out, for building band presets
+function noShapes(): Record<ShapeType, number> {
+  return Object.fromEntries(Object.values(ShapeType).map((shape) => [shape, 0])) as Record<ShapeType, number>;
+}
+
 export function defaultState(): AppState {
   return {
     gridWidth: 8,
     gridHeight: 8,
     seed: Date.now(),
+    colorSeed: Math.floor(Math.random() * 2147483647),
+    bredTile: null,
+    locks: {},
+    recolor: [],
+    valueMap: { enabled: false, levels: 3 },
+    gradient: { kind: "none", order: "lightness", spread: 1 },
+    scrappy: { enabled: false, colorsPerTile: 0 },
+    valuePreview: false,
+    breeding: { crossover: "quadrants", mutationRate: 5 },
     symmetry: 100,
     symmetryMode: SymmetryMode.FourWay,
     enabledShapes: {
@@ -62,21 +81,92 @@ export function defaultState(): AppState {
       [ShapeType.HST]: true,
       [ShapeType.QST]: true,
       [ShapeType.HSTSplit]: false, // Only created by simplification, not directly selectable
+      [ShapeType.FlyingGeese]: false,
+      [ShapeType.HRT]: false,
+      [ShapeType.HRTMirror]: false, // Only created by symmetry transforms
+      [ShapeType.Rectangle]: false,
+      [ShapeType.DrunkardsPath]: false,
+      [ShapeType.Snowball]: false,
+      [ShapeType.FourPatch]: false,
+      [ShapeType.NinePatch]: false,
     },
     shapeRatios: {
       [ShapeType.Square]: 33,
       [ShapeType.HST]: 34,
       [ShapeType.QST]: 33,
       [ShapeType.HSTSplit]: 0,
+      [ShapeType.FlyingGeese]: 20,
+      [ShapeType.HRT]: 20,
+      [ShapeType.HRTMirror]: 0,
+      [ShapeType.Rectangle]: 20,
+      [ShapeType.DrunkardsPath]: 20,
+      [ShapeType.Snowball]: 20,
+      [ShapeType.FourPatch]: 20,
+      [ShapeType.NinePatch]: 20,
     },
     paletteIndex: 0,
     customPalettes: [],
     paletteColorCount: 6,
     colorCountMode: "max",
+    minColorPatches: 1,
+    constraints: { distinctNeighbours: false, minContrast: 0, maxColorShare: 100 },
+    generator: Generator.Random,
+    wfc: {
+      adjacency: "match",
+      // Each colour beside itself and the next one along the palette
+      pairs: [[0, 0], [1, 1], [2, 2], [3, 3], [4, 4], [5, 5], [0, 1], [1, 2], [2, 3], [3, 4], [4, 5]],
+      sample: [],
+    },
     repeatWidth: 4,
     repeatHeight: 4,
+    repeatOffset: RepeatOffset.None,
     outerBorder: { lineCount: 0, colors: [], widthFraction: 1 },
     sashingBorder: { lineCount: 0, colors: [], widthFraction: 1 },
+    blockLibrary: { enabled: false, blockIds: ["ohio-star"], arrangement: "tile" },
+    medallion: {
+      enabled: false,
+      rounds: [
+        { style: RoundStyle.Sawtooth, depth: 1, shapes: [] },
+        { style: RoundStyle.Pieced, depth: 2, shapes: [ShapeType.Square, ShapeType.HST, ShapeType.QST] },
+        { style: RoundStyle.FlyingGeese, depth: 1, shapes: [] },
+      ],
+    },
+    rowQuilt: {
+      enabled: false,
+      bands: [
+        {
+          height: 2,
+          tileWidth: 2,
+          symmetryMode: SymmetryMode.FourWay,
+          shapeRatios: { ...noShapes(), [ShapeType.HST]: 60, [ShapeType.Square]: 20 },
+          seedOffset: 0,
+        },
+        {
+          height: 1,
+          tileWidth: 2,
+          symmetryMode: SymmetryMode.Horizontal,
+          shapeRatios: { ...noShapes(), [ShapeType.FlyingGeese]: 60, [ShapeType.Square]: 20 },
+          seedOffset: 1,
+        },
+        {
+          height: 3,
+          tileWidth: 3,
+          symmetryMode: SymmetryMode.FourWay,
+          shapeRatios: { ...noShapes(), [ShapeType.QST]: 40, [ShapeType.HST]: 30, [ShapeType.Square]: 30 },
+          seedOffset: 2,
+        },
+      ],
+    },
+    alternateBlock: { enabled: false, kind: "plain", color: "", shapes: [ShapeType.Square, ShapeType.HST] },
+    onPoint: false,
+    settingColor: "",
+    tessellation: Tessellation.Square,
+    hex: {
+      layout: HexLayout.Rosettes,
+      symmetry: HexSymmetry.Rotate6,
+      fills: { solid: true, triangles: false, diamonds: false },
+      sizeInches: 1,
+    },
     scaleEnabled: false,
     blockSizeInches: 4,
     blockSizeCustom: false,
@@ -10,6 +10,27 @@ export const ShapeType = {
   //   180 = top-right solid, bottom-left split
   //   270 = bottom-right solid, top-left split
   HSTSplit: "hst-split",
+  // Two-cell units (see QuiltBlock.span). At rotation 0 they are 2 cells wide
+  // and 1 tall; at 90/270 they are 1 wide and 2 tall.
+  // colors: [goose, skyLeft, skyRight] — goose points up at rotation 0
+  FlyingGeese: "flying-geese",
+  // colors: [bottomLeft, topRight] — diagonal runs top-left → bottom-right at rotation 0
+  HRT: "hrt",
+  // Mirror image of HRT (only created by symmetry transforms)
+  // colors: [bottomRight, topLeft] — diagonal runs bottom-left → top-right at rotation 0
+  HRTMirror: "hrt-mirror",
+  Rectangle: "rectangle",
+  // Quarter-circle "pie" in one corner, curved seam
+  // colors: [pie, background] — rotation 0 puts the pie in the bottom-left corner
+  // (90 = top-left, 180 = top-right, 270 = bottom-right, as for HSTSplit)
+  DrunkardsPath: "drunkards-path",
+  // Square with a small triangle sewn onto each corner
+  // colors: [centre, corners]
+  Snowball: "snowball",
+  // Compound cells: a 2×2 or 3×3 sub-grid of simple shapes (see QuiltBlock.subgrid).
+  // colors is empty; rotation turns the whole sub-grid.
+  FourPatch: "four-patch",
+  NinePatch: "nine-patch",
 } as const;
 
 export type ShapeType = (typeof ShapeType)[keyof typeof ShapeType];
@@ -18,31 +39,247 @@ export const SymmetryMode = {
   None: "none",
   Horizontal: "horizontal",
   Vertical: "vertical",
-  FourWay: "four-way",
+  FourWay: "four-way",   // kaleidoscope: quarter turns and diagonal mirrors (D4)
+  Pinwheel: "pinwheel",  // quarter turns only (C4)
   DiagonalTLBR: "diagonal-tlbr",
   DiagonalTRBL: "diagonal-trbl",
   Rotational: "rotational",
+  // Wallpaper groups on the square lattice (see wallpaper.ts); None is p1
+  P2: "p2",
+  PM: "pm",
+  PG: "pg",
+  CM: "cm",
+  PMM: "pmm",
+  PMG: "pmg",
+  PGG: "pgg",
+  CMM: "cmm",
+  P4: "p4",
+  P4M: "p4m",
+  P4G: "p4g",
 } as const;
 
 export type SymmetryMode = (typeof SymmetryMode)[keyof typeof SymmetryMode];
 
+// How copies of the repeat tile are placed relative to each other
+export const RepeatOffset = {
+  None: "none",         // straight grid
+  HalfDrop: "half-drop", // alternate tile columns shift down by half a tile
+  Brick: "brick",       // alternate tile rows shift right by half a tile
+} as const;
+
+export type RepeatOffset = (typeof RepeatOffset)[keyof typeof RepeatOffset];
+
+// Shapes that cover two grid cells
+export const SPAN_SHAPES: readonly ShapeType[] = [
+  ShapeType.FlyingGeese,
+  ShapeType.HRT,
+  ShapeType.HRTMirror,
+  ShapeType.Rectangle,
+];
+
+export function isSpanShape(shape: ShapeType): boolean {
+  return SPAN_SHAPES.includes(shape);
+}
+
+// Sub-grid size of a compound shape, or 0 for shapes drawn directly
+export function subdivisionSize(shape: ShapeType): number {
+  if (shape === ShapeType.FourPatch) return 2;
+  if (shape === ShapeType.NinePatch) return 3;
+  return 0;
+}
+
+// Offset from one cell of a two-cell unit to the other cell
+export interface CellSpan {
+  dRow: number;
+  dCol: number;
+}
+
 export interface QuiltBlock {
   shape: ShapeType;
-  colors: string[];
+  colors: string[]; // palette roles ("@0", …) in generated designs, hex in hand-made ones
   rotation: number; // 0, 90, 180, 270
+  // Two-cell units store the same block in both cells, each pointing at its partner.
+  // The top-left cell draws the unit; the other cell is covered by it.
+  span?: CellSpan;
+  // Compound shapes hold their smaller blocks here, row by row (unrotated)
+  subgrid?: QuiltBlock[][];
+}
+
+// True if this cell is the second half of a two-cell unit (drawn by its partner)
+export function isCoveredCell(block: QuiltBlock): boolean {
+  return !!block.span && (block.span.dRow < 0 || block.span.dCol < 0);
+}
+
+// --- Hexagon (English paper piecing) mode ---
+
+export const Tessellation = {
+  Square: "square",
+  Hex: "hex",
+} as const;
+
+export type Tessellation = (typeof Tessellation)[keyof typeof Tessellation];
+
+export const HexLayout = {
+  Rosettes: "rosettes", // Grandmother's Flower Garden: rosettes separated by a path
+  Random: "random",
+} as const;
+
+export type HexLayout = (typeof HexLayout)[keyof typeof HexLayout];
+
+export const HexFill = {
+  Solid: "solid",
+  Triangles: "triangles", // six triangles meeting in the centre
+  Diamonds: "diamonds",   // three diamonds (tumbling block)
+} as const;
+
+export type HexFill = (typeof HexFill)[keyof typeof HexFill];
+
+export const HexSymmetry = {
+  None: "none",
+  Rotate6: "rotate6",           // 6-fold rotation around the centre hex
+  Mirror: "mirror",             // left ↔ right
+  Kaleidoscope: "kaleidoscope", // 6-fold rotation + mirror
+} as const;
+
+export type HexSymmetry = (typeof HexSymmetry)[keyof typeof HexSymmetry];
+
+// Hexes are pointy-topped, in rows with odd rows shifted half a hex right.
+// A hex is split into six triangles numbered clockwise from the top corner;
+// colors holds one entry per triangle so every fill transforms the same way.
+export interface HexCell {
+  fill: HexFill;
+  colors: string[]; // 6 entries (all equal for solid)
+  offset: number;   // diamonds: 0 pairs triangles (0,1)(2,3)(4,5), 1 pairs (1,2)(3,4)(5,0)
+}
+
+export interface HexConfig {
+  layout: HexLayout;
+  symmetry: HexSymmetry;
+  fills: Record<HexFill, boolean>;
+  sizeInches: number; // finished side length (EPP hexagons are sized by side)
 }
 
 export interface BorderConfig {
   lineCount: number;       // 0-5
-  colors: string[];        // color/placeholder for each line (indexes into current palette)
+  colors: string[];        // palette role ("@0", …) for each line
   widthFraction: number;   // width per line as fraction of block size: 0.25, 0.5, 0.75, 1
-  cornerstoneColor?: string; // color for sashing intersections (sashing only)
+  cornerstoneColor?: string; // palette role for sashing intersections (sashing only)
+}
+
+export interface BlockLibraryConfig {
+  enabled: boolean;            // use traditional blocks instead of random cells
+  blockIds: string[];          // ids from BLOCK_LIBRARY
+  arrangement: "tile" | "mix"; // tile = one block repeated, mix = random block per unit
+}
+
+// Pieced rounds for medallion quilts. Each round is worked along the top side
+// with its outer edge up, then turned onto the other three sides.
+export const RoundStyle = {
+  Sawtooth: "sawtooth",        // HSTs in a row, turning round at the middle of each side
+  Squares: "squares",          // squares in a row, two colours alternating
+  FlyingGeese: "flying-geese", // geese pointing outwards
+  Pieced: "pieced",            // random blocks from the round's own shapes
+} as const;
+
+export type RoundStyle = (typeof RoundStyle)[keyof typeof RoundStyle];
+
+export interface MedallionRound {
+  style: RoundStyle;
+  depth: number;        // width of the round in cells (1-3)
+  shapes: ShapeType[];  // shape pool for pieced rounds
+}
+
+export interface MedallionConfig {
+  enabled: boolean;          // one centre tile framed by rounds instead of a repeat
+  rounds: MedallionRound[];  // innermost first
+}
+
+// A row quilt stacks horizontal bands, each repeating its own tile across the quilt
+export interface RowBand {
+  height: number;                         // rows
+  tileWidth: number;                      // repeat width within the band
+  symmetryMode: SymmetryMode;
+  shapeRatios: Record<ShapeType, number>; // 0 leaves a shape out of the band
+  seedOffset: number;                     // added to the quilt seed for this band
+}
+
+export interface RowQuiltConfig {
+  enabled: boolean;  // bands instead of one repeat tile (sashing becomes spacers between bands)
+  bands: RowBand[];  // top to bottom
+}
+
+// How the cells of a repeat tile are chosen
+export const Generator = {
+  Random: "random", // each cell on its own
+  Wfc: "wfc",       // wave function collapse: colours meet across every seam by the adjacency rule
+} as const;
+
+export type Generator = (typeof Generator)[keyof typeof Generator];
+
+export interface WfcConfig {
+  adjacency: "match" | "declared" | "learned"; // match = the same colour either side of every seam
+  pairs: [number, number][];       // declared: palette colours (by index) allowed to meet, either way round
+  sample: QuiltBlock[][];          // learned: the design whose blocks and neighbours are copied ([] = none)
+}
+
+// Colour rules applied while a tile is generated. minContrast 0 and
+// maxColorShare 100 switch their rules off.
+export interface ColorConstraints {
+  distinctNeighbours: boolean;  // patches sharing a seam must differ in colour
+  minContrast: number;          // minimum lightness difference (CIELAB L*) across every seam
+  maxColorShare: number;        // no colour in more than this % of the tile's patches
+}
+
+// Alternate-block setting: a second tile, the same size as the repeat, takes
+// every other repeat position in a checkerboard
+export interface AlternateBlockConfig {
+  enabled: boolean;
+  kind: "plain" | "pieced";  // plain = one setting square in a single colour
+  color: string;             // plain colour: a palette role ("" = the first)
+  shapes: ShapeType[];       // shape pool for a pieced alternate
+}
+
+// Value-map designs: the layout is drawn in value classes, light to dark,
+// then each class is filled from the palette colours of that lightness
+export interface ValueMapConfig {
+  enabled: boolean;
+  levels: number; // value classes, 2-5
+}
+
+// Ombré: colours drawn by position in the whole quilt, fading through the
+// palette along a gradient
+export interface GradientConfig {
+  kind: "none" | "linear" | "radial" | "corner"; // top to bottom, centre outwards, top left to bottom right
+  order: "lightness" | "palette";                 // palette order along the gradient: light to dark, or as listed
+  spread: number;                                 // palette steps either side of a cell's colour that still show
+}
+
+// Scrappy quilts: every repeat of the tile keeps its shapes but draws its
+// own colours
+export interface ScrappyConfig {
+  enabled: boolean;
+  colorsPerTile: number; // colours each repeat is cut from (0 = the whole palette)
+}
+
+// Breeding two saved generations into a child tile
+export interface BreedConfig {
+  crossover: "quadrants" | "shapes"; // quadrants from either parent, or shapes from one and colours from the other
+  mutationRate: number;              // % of the child's free cells replaced at random
 }
 
 export interface AppState {
   gridWidth: number;
   gridHeight: number;
   seed: number;
+  colorSeed: number | null;        // seed for the colours alone (null = drawn with the shapes from seed, as in older designs)
+  bredTile: QuiltBlock[][] | null; // repeat tile bred from two generations (null = generated from the seed)
+  locks: Record<string, QuiltBlock>; // repeat tile cells ("row,col") kept through rerolls, with their blocks
+  recolor: number[];            // palette slot each role is drawn in (role i takes slot recolor[i]; [] = its own)
+  valueMap: ValueMapConfig;
+  gradient: GradientConfig;
+  scrappy: ScrappyConfig;
+  valuePreview: boolean;        // canvas shows each colour as the grey of its value class
+  breeding: BreedConfig;
   symmetry: number; // 0-100
   symmetryMode: SymmetryMode;
   enabledShapes: Record<ShapeType, boolean>;
@@ -51,10 +288,23 @@ export interface AppState {
   customPalettes: Palette[];
   paletteColorCount: number;
   colorCountMode: "max" | "exact";  // max = up to N colors, exact = use exactly N colors
+  minColorPatches: number;          // exact mode: fewest patches of each colour in the repeat tile
+  constraints: ColorConstraints;
+  generator: Generator;
+  wfc: WfcConfig;
   repeatWidth: number;
   repeatHeight: number;
+  repeatOffset: RepeatOffset;
   outerBorder: BorderConfig;
   sashingBorder: BorderConfig;  // between repeat blocks
+  blockLibrary: BlockLibraryConfig;
+  medallion: MedallionConfig;
+  rowQuilt: RowQuiltConfig;
+  alternateBlock: AlternateBlockConfig;
+  onPoint: boolean;             // blocks turned 45° with setting triangles round the edge
+  settingColor: string;         // setting triangle palette role ("" = the first)
+  tessellation: Tessellation;   // square grid or hexagons (gridWidth × gridHeight hexes)
+  hex: HexConfig;
   scaleEnabled: boolean;        // whether scale/dimensions feature is active
   blockSizeInches: number;      // finished block size in inches (e.g. 9.5)
   blockSizeCustom: boolean;     // true if user entered a custom block size
@@ -83,4 +333,5 @@ export interface Palette {
   name: string;
   colors: string[];       // Legacy: solid colors
   swatches?: Swatch[];    // New: can be colors or fabrics
+  weights?: number[];     // how often each colour is drawn, relative to the others (missing = all alike)
 }
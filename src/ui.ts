@@ -1,20 +1,95 @@
 import { Store } from "./state";
-import { ShapeType, SymmetryMode, type Swatch, type FabricSwatch, isFabricSwatch, isColorSwatch } from "./types";
-import { getAllPalettes, BASE_PALETTES } from "./palette";
-import { loadGenerations, saveGeneration, generateName } from "./generations";
+import { Generator, ShapeType, SymmetryMode, RepeatOffset, RoundStyle, Tessellation, HexLayout, HexFill, HexSymmetry, type AppState, type AlternateBlockConfig, type BlockLibraryConfig, type BreedConfig, type ColorConstraints, type GradientConfig, type MedallionConfig, type MedallionRound, type RowBand, type RowQuiltConfig, type HexConfig, type WfcConfig, type Swatch, type FabricSwatch, isFabricSwatch, isColorSwatch } from "./types";
+import {
+  getAllPalettes,
+  BASE_PALETTES,
+  DEFAULT_WEIGHT,
+  MAX_WEIGHT,
+  paletteWeights,
+  recolorPalette,
+  roleColor,
+  roleSlot,
+} from "./palette";
+import { type Generation, isGeneration, loadGenerations, saveChild, saveGeneration, generateName } from "./generations";
 import { createFabricEditor } from "./fabric-editor";
 import type { Palette } from "./types";
 import { getCurrentUser, getLoginUrl, getLogoutUrl, type User } from "./api-client";
 import { initShareModal, openShareModal } from "./ui/share";
-
-const SYMMETRY_MODE_LABELS: { mode: SymmetryMode; label: string }[] = [
+import { BLOCK_LIBRARY, libraryUnitSize } from "./blocks";
+import { hexGridSize } from "./hex";
+import { repeatLayout, sashingGaps } from "./repeat";
+import { medallionCentre, medallionSize } from "./medallion";
+import { rowQuiltHeight } from "./row-quilt";
+import { type SymmetryCellKind, breedTiles, fitsExactColors, hasRepeatTile, repeatTile, symmetryCellKinds, symmetryDiagram } from "./layout";
+import { renderSvg } from "./renderer";
+import { needsEvenTile } from "./wallpaper";
+
+const SYMMETRY_MODE_LABELS: { mode: SymmetryMode; label: string; title?: string }[] = [
   { mode: SymmetryMode.None, label: "None" },
   { mode: SymmetryMode.Horizontal, label: "H ↔" },
   { mode: SymmetryMode.Vertical, label: "V ↕" },
-  { mode: SymmetryMode.FourWay, label: "4-Way" },
+  { mode: SymmetryMode.FourWay, label: "Kaleido", title: "8-fold: quarter turns and diagonal mirrors" },
+  { mode: SymmetryMode.Pinwheel, label: "Pinwheel", title: "4-fold: quarter turns only" },
   { mode: SymmetryMode.DiagonalTLBR, label: "Diag \\" },
   { mode: SymmetryMode.DiagonalTRBL, label: "Diag /" },
   { mode: SymmetryMode.Rotational, label: "Rotate" },
+  // Wallpaper groups
+  { mode: SymmetryMode.P2, label: "p2", title: "Half turns" },
+  { mode: SymmetryMode.PM, label: "pm", title: "Mirrors" },
+  { mode: SymmetryMode.PG, label: "pg", title: "Glide reflections" },
+  { mode: SymmetryMode.CM, label: "cm", title: "Mirrors with glides between them" },
+  { mode: SymmetryMode.PMM, label: "pmm", title: "Mirrors both ways" },
+  { mode: SymmetryMode.PMG, label: "pmg", title: "Mirrors one way, glides the other" },
+  { mode: SymmetryMode.PGG, label: "pgg", title: "Glides both ways" },
+  { mode: SymmetryMode.CMM, label: "cmm", title: "Mirrors both ways, centred" },
+  { mode: SymmetryMode.P4, label: "p4", title: "Quarter turns (square repeat)" },
+  { mode: SymmetryMode.P4M, label: "p4m", title: "Quarter turns and mirrors (square repeat)" },
+  { mode: SymmetryMode.P4G, label: "p4g", title: "Quarter turns and glides (square repeat)" },
+];
+
+const SYMMETRY_DIAGRAM_COLORS: [string, string, string] = ["#6c63ff", "#e0e0e0", "#3a3a5a"];
+
+// Cell preview colours: free, copied from another cell, free but symmetric itself
+const SYMMETRY_CELL_COLORS: Record<SymmetryCellKind, string> = {
+  free: "#6c63ff",
+  copied: "#3a3a5a",
+  fixed: "#e0e0e0",
+};
+
+const ROUND_STYLE_LABELS: { style: RoundStyle; label: string }[] = [
+  { style: RoundStyle.Sawtooth, label: "Sawtooth" },
+  { style: RoundStyle.Squares, label: "Squares in a row" },
+  { style: RoundStyle.FlyingGeese, label: "Flying geese" },
+  { style: RoundStyle.Pieced, label: "Pieced" },
+];
+
+// Shapes a pieced round can draw from
+const ROUND_SHAPE_LABELS: { shape: ShapeType; label: string }[] = [
+  { shape: ShapeType.Square, label: "Square" },
+  { shape: ShapeType.HST, label: "HST" },
+  { shape: ShapeType.QST, label: "QST" },
+  { shape: ShapeType.FlyingGeese, label: "Geese" },
+  { shape: ShapeType.HRT, label: "HRT" },
+  { shape: ShapeType.DrunkardsPath, label: "Curve" },
+  { shape: ShapeType.Snowball, label: "Snowball" },
+  { shape: ShapeType.FourPatch, label: "4-Patch" },
+];
+
+const MAX_MEDALLION_ROUNDS = 6;
+const MAX_ROW_BANDS = 8;
+
+// Shapes a row band can be built from, with their ratio slider labels
+const BAND_SHAPE_LABELS: { shape: ShapeType; label: string }[] = [
+  ...ROUND_SHAPE_LABELS,
+  { shape: ShapeType.Rectangle, label: "Rect" },
+  { shape: ShapeType.NinePatch, label: "9-Patch" },
+];
+
+const HEX_SYMMETRY_LABELS: { mode: HexSymmetry; label: string }[] = [
+  { mode: HexSymmetry.None, label: "None" },
+  { mode: HexSymmetry.Rotate6, label: "6-Fold" },
+  { mode: HexSymmetry.Mirror, label: "Mirror" },
+  { mode: HexSymmetry.Kaleidoscope, label: "Kaleido" },
 ];
 
 function $(id: string): HTMLElement {
@@ -47,6 +122,7 @@ export function bindUI(
   actions?: { 
     onExportImage?: (format: 'png' | 'svg') => void; 
     onExportCuttingList?: () => void;
+    onExportEppTemplate?: () => void;
   }
 ): void {
   // --- Grid size (now in canvas area, as multiples of repeat) ---
@@ -63,7 +139,8 @@ export function bindUI(
     const repH = state.repeatHeight || 4;
     store.update({ 
       gridWidth: multW * repW, 
-      gridHeight: multH * repH 
+      // A row quilt is as tall as its bands
+      gridHeight: state.rowQuilt.enabled ? rowQuiltHeight(state) : multH * repH 
     });
   }
 
@@ -94,7 +171,9 @@ export function bindUI(
     repWVal.textContent = repW.value;
     const newRepW = Number(repW.value);
     store.update({ repeatWidth: newRepW });
-    if (store.get().quiltSize) {
+    if (store.get().medallion.enabled) {
+      applyMedallionSize();
+    } else if (store.get().quiltSize) {
       recalcGridForQuiltSize();
     } else {
       const multW = Number(gridW.value);
@@ -106,24 +185,30 @@ export function bindUI(
     repHVal.textContent = repH.value;
     const newRepH = Number(repH.value);
     store.update({ repeatHeight: newRepH });
-    if (store.get().quiltSize) {
+    if (store.get().medallion.enabled) {
+      applyMedallionSize();
+    } else if (store.get().quiltSize) {
       recalcGridForQuiltSize();
     } else {
-      const multH = Number(gridH.value);
-      store.update({ gridHeight: multH * newRepH });
+      updateGridFromMultiplier();
     }
   });
 
   // --- Randomise & History ---
   const randomiseBtn = $("randomise-btn");
+  const rerollColorsBtn = $("reroll-colors-btn") as HTMLButtonElement;
+  const rerollShapesBtn = $("reroll-shapes-btn") as HTMLButtonElement;
   const historyToggle = $("history-toggle");
   const historyList = $("history-list");
   const currentDesignName = $("current-design-name");
   let historyOpen = false;
+  // Generations ticked for breeding, oldest pick first
+  let breedPicks: string[] = [];
+  const generationKey = (g: Generation) => `${g.seed}/${g.colorSeed ?? ""}`;
 
   function refreshHistoryList() {
     const generations = loadGenerations();
-    const currentSeed = store.get().seed;
+    const { seed: currentSeed, colorSeed: currentColorSeed } = store.get();
     historyList.innerHTML = "";
 
     if (generations.length === 0) {
@@ -138,13 +223,25 @@ export function bindUI(
 
     for (const gen of generations) {
       const item = document.createElement("div");
-      item.className = "history-item" + (gen.seed === currentSeed ? " active" : "");
+      item.className = "history-item" + (isGeneration(gen, currentSeed, currentColorSeed) ? " active" : "");
+      const parents = gen.parents ? `<span class="history-item-parents">${gen.parents.join(" × ")}</span>` : "";
       item.innerHTML = `
-        <span class="history-item-name">${gen.name}</span>
+        <input type="checkbox" class="history-item-pick" title="Pick to breed" />
+        <span class="history-item-name" style="flex: 1;">${gen.name}${parents}</span>
         <span class="history-item-date">${formatDate(gen.createdAt)}</span>
       `;
+      const pick = item.querySelector(".history-item-pick") as HTMLInputElement;
+      const key = generationKey(gen);
+      pick.checked = breedPicks.includes(key);
+      pick.addEventListener("click", (e) => {
+        e.stopPropagation();
+        breedPicks = breedPicks.filter((k) => k !== key);
+        if (pick.checked) breedPicks = [...breedPicks, key].slice(-2);
+        refreshHistoryList();
+        syncBreed();
+      });
       item.addEventListener("click", () => {
-        store.update({ seed: gen.seed });
+        store.update({ seed: gen.seed, colorSeed: gen.colorSeed ?? null, bredTile: gen.tile ?? null });
         currentDesignName.textContent = gen.name;
         closeHistory();
       });
@@ -180,19 +277,176 @@ export function bindUI(
     }
   });
 
-  randomiseBtn.addEventListener("click", () => {
-    const newSeed = Math.floor(Math.random() * 2147483647);
-    const gen = saveGeneration(newSeed);
-    store.update({ seed: newSeed });
+  const newSeed = () => Math.floor(Math.random() * 2147483647);
+
+  // A bred tile outlives a colour reroll, so the new generation keeps it
+  function showSeeds(seed: number, colorSeed: number | null) {
+    const { seed: current, bredTile } = store.get();
+    const gen = saveGeneration(seed, colorSeed, seed === current ? bredTile : null);
+    store.update({ seed, colorSeed });
+    currentDesignName.textContent = gen.name;
+  }
+
+  randomiseBtn.addEventListener("click", () => showSeeds(newSeed(), newSeed()));
+  // An older design's colours were drawn with its shapes, so its first
+  // reroll of either changes both
+  rerollColorsBtn.addEventListener("click", () => showSeeds(store.get().seed, newSeed()));
+  rerollShapesBtn.addEventListener("click", () => showSeeds(newSeed(), store.get().colorSeed ?? newSeed()));
+
+  // --- Locked cells (locked by clicking the canvas, see main.ts) ---
+  const lockInfo = $("lock-info");
+  const unlockAllBtn = $("unlock-all-btn") as HTMLButtonElement;
+  unlockAllBtn.addEventListener("click", () => store.update({ locks: {} }));
+
+  function syncReroll() {
+    const s = store.get();
+    const hex = s.tessellation === Tessellation.Hex;
+    rerollShapesBtn.disabled = hex;
+    // WFC picks shapes and colours together; a bred tile is fixed
+    rerollColorsBtn.disabled = hex || s.generator === Generator.Wfc || s.bredTile !== null;
+
+    const lockCount = Object.keys(s.locks).length;
+    const lockable = !hex && !s.onPoint && hasRepeatTile(s);
+    unlockAllBtn.disabled = lockCount === 0;
+    lockInfo.textContent = !lockable
+      ? "Cells can be locked in a plain repeat on the square grid."
+      : lockCount > 0
+        ? `${lockCount} cell${lockCount === 1 ? "" : "s"} of the repeat locked.`
+        : "Click a cell to lock it through rerolls.";
+  }
+  syncReroll();
+
+  // --- Breeding ---
+  const breedQuadrants = $("breed-quadrants");
+  const breedShapes = $("breed-shapes");
+  const breedMutation = $("breed-mutation") as HTMLInputElement;
+  const breedMutationVal = $("breed-mutation-val");
+  const breedBtn = $("breed-btn") as HTMLButtonElement;
+  const breedHint = $("breed-hint");
+
+  function updateBreeding(partial: Partial<BreedConfig>) {
+    store.update({ breeding: { ...store.get().breeding, ...partial } });
+  }
+
+  function pickedParents(): Generation[] {
+    const generations = loadGenerations();
+    return breedPicks.flatMap((key) => generations.filter((g) => generationKey(g) === key));
+  }
+
+  function syncBreed() {
+    const s = store.get();
+    breedQuadrants.classList.toggle("active", s.breeding.crossover === "quadrants");
+    breedShapes.classList.toggle("active", s.breeding.crossover === "shapes");
+    breedMutation.value = String(s.breeding.mutationRate);
+    breedMutationVal.textContent = `${s.breeding.mutationRate}%`;
+
+    const parents = pickedParents();
+    const breedable = s.tessellation !== Tessellation.Hex && hasRepeatTile(s);
+    breedBtn.disabled = !breedable || parents.length < 2;
+    if (!breedable) {
+      breedHint.textContent = "Breeding needs a repeat tile: not hexagons, medallions, row quilts or named blocks.";
+    } else if (parents.length < 2) {
+      breedHint.textContent = `Tick two designs in the history to breed them (${parents.length} of 2 picked).`;
+    } else {
+      breedHint.textContent = `${parents[0].name} × ${parents[1].name}`;
+    }
+  }
+
+  breedQuadrants.addEventListener("click", () => updateBreeding({ crossover: "quadrants" }));
+  breedShapes.addEventListener("click", () => updateBreeding({ crossover: "shapes" }));
+  breedMutation.addEventListener("input", () => updateBreeding({ mutationRate: Number(breedMutation.value) }));
+
+  breedBtn.addEventListener("click", () => {
+    const parents = pickedParents();
+    if (parents.length < 2) return;
+    const state = store.get();
+    // Each parent's tile is rebuilt at the current settings
+    const [first, second] = parents.map((p) =>
+      repeatTile({ ...state, seed: p.seed, colorSeed: p.colorSeed ?? null, bredTile: p.tile ?? null })
+    );
+    const seed = Math.floor(Math.random() * 2147483647);
+    // The child's colour seed covers what the tile doesn't fix: scrappy repeats and gradients
+    const colorSeed = Math.floor(Math.random() * 2147483647);
+    const tile = breedTiles(state, first, second, seed);
+    const gen = saveChild(seed, colorSeed, tile, parents);
+    store.update({ seed, colorSeed, bredTile: tile });
     currentDesignName.textContent = gen.name;
+    if (historyOpen) refreshHistoryList();
   });
 
+  syncBreed();
+
+  // --- Tessellation (squares / hexagons) ---
+  const tessSquare = $("tessellation-square");
+  const tessHex = $("tessellation-hex");
+  const hexOptions = $("hex-options");
+  const hexLayoutRosettes = $("hex-layout-rosettes");
+  const hexLayoutRandom = $("hex-layout-random");
+  const hexSymContainer = $("hex-symmetry-modes");
+  const hexSize = $("hex-size") as HTMLSelectElement;
+  const exportEppBtn = $("export-epp-template");
+
+  function updateHex(partial: Partial<HexConfig>) {
+    store.update({ hex: { ...store.get().hex, ...partial } });
+  }
+
+  tessSquare.addEventListener("click", () => store.update({ tessellation: Tessellation.Square }));
+  tessHex.addEventListener("click", () => store.update({ tessellation: Tessellation.Hex }));
+  hexLayoutRosettes.addEventListener("click", () => updateHex({ layout: HexLayout.Rosettes }));
+  hexLayoutRandom.addEventListener("click", () => updateHex({ layout: HexLayout.Random }));
+  hexSize.addEventListener("change", () => updateHex({ sizeInches: Number(hexSize.value) }));
+
+  for (const { mode, label } of HEX_SYMMETRY_LABELS) {
+    const btn = document.createElement("button");
+    btn.className = "sym-mode-btn";
+    btn.textContent = label;
+    btn.dataset.mode = mode;
+    btn.addEventListener("click", () => updateHex({ symmetry: mode }));
+    hexSymContainer.appendChild(btn);
+  }
+
+  const hexFillInputs = (Object.values(HexFill) as HexFill[]).map((fill) => {
+    const checkbox = $(`hex-fill-${fill}`) as HTMLInputElement;
+    checkbox.addEventListener("change", () => {
+      updateHex({ fills: { ...store.get().hex.fills, [fill]: checkbox.checked } });
+    });
+    return { fill, checkbox };
+  });
+
+  function syncHexControls() {
+    const s = store.get();
+    const isHex = s.tessellation === Tessellation.Hex;
+    tessSquare.classList.toggle("active", !isHex);
+    tessHex.classList.toggle("active", isHex);
+    hexOptions.style.display = isHex ? "block" : "none";
+    exportEppBtn.style.display = isHex ? "block" : "none";
+    hexLayoutRosettes.classList.toggle("active", s.hex.layout === HexLayout.Rosettes);
+    hexLayoutRandom.classList.toggle("active", s.hex.layout === HexLayout.Random);
+    hexSymContainer.querySelectorAll(".sym-mode-btn").forEach((btn) => {
+      const el = btn as HTMLElement;
+      el.classList.toggle("active", el.dataset.mode === s.hex.symmetry);
+    });
+    for (const { fill, checkbox } of hexFillInputs) checkbox.checked = s.hex.fills[fill];
+    hexSize.value = String(s.hex.sizeInches);
+  }
+
   // --- Symmetry mode buttons ---
   const symModesContainer = $("symmetry-modes");
-  for (const { mode, label } of SYMMETRY_MODE_LABELS) {
+  for (const { mode, label, title } of SYMMETRY_MODE_LABELS) {
     const btn = document.createElement("button");
     btn.className = "sym-mode-btn";
-    btn.textContent = label;
+    // Four copies of a motif show how the mode places them
+    const diagram = symmetryDiagram(mode, 4, SYMMETRY_DIAGRAM_COLORS);
+    btn.innerHTML = renderSvg(diagram, { ...store.get(), onPoint: false }, {
+      cellSize: 5,
+      includeGrid: false,
+      includeRepeat: false,
+      background: null,
+    });
+    btn.append(label);
+    if (title) {
+      btn.title = needsEvenTile(mode) ? `${title} — needs an even repeat size` : title;
+    }
     btn.dataset.mode = mode;
     btn.addEventListener("click", () => {
       store.update({ symmetryMode: mode });
@@ -207,6 +461,24 @@ export function bindUI(
     });
   }
 
+  // Which cells of the repeat tile are generated freely and which are copies
+  const symCellsPreview = $("symmetry-cells-preview");
+  function renderSymmetryCells(s: AppState) {
+    // Symmetry applies to the centre of a medallion
+    const { tileW, tileH } = s.medallion.enabled
+      ? { tileW: medallionCentre(s).width, tileH: medallionCentre(s).height }
+      : repeatLayout(s, s.gridHeight, s.gridWidth);
+    const kinds = symmetryCellKinds(s.symmetryMode, tileW, tileH);
+    const cell = Math.max(2, Math.min(12, Math.floor(120 / Math.max(tileW, tileH, 1))));
+    const rects = kinds.flatMap((row, r) =>
+      row.map((kind, c) =>
+        `<rect x="${c * cell}" y="${r * cell}" width="${cell - 1}" height="${cell - 1}" fill="${SYMMETRY_CELL_COLORS[kind]}" />`
+      )
+    );
+    symCellsPreview.innerHTML =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${tileW * cell}" height="${tileH * cell}">${rects.join("")}</svg>`;
+  }
+
   // --- Symmetry strength ---
   const symSlider = $("symmetry") as HTMLInputElement;
   const symVal = $("symmetry-val");
@@ -215,9 +487,161 @@ export function bindUI(
     store.update({ symmetry: Number(symSlider.value) });
   });
 
+  // --- Generator ---
+  const generatorRandom = $("generator-random");
+  const generatorWfc = $("generator-wfc");
+  const wfcOptions = $("wfc-options");
+  const wfcMatch = $("wfc-match");
+  const wfcDeclared = $("wfc-declared");
+  const wfcLearned = $("wfc-learned");
+  const wfcPairs = $("wfc-pairs");
+  const wfcLearn = $("wfc-learn");
+  const wfcSampleInfo = $("wfc-sample-info");
+  const wfcHint = $("wfc-hint");
+
+  function updateWfc(partial: Partial<WfcConfig>) {
+    store.update({ wfc: { ...store.get().wfc, ...partial } });
+  }
+
+  generatorRandom.addEventListener("click", () => store.update({ generator: Generator.Random }));
+  generatorWfc.addEventListener("click", () => store.update({ generator: Generator.Wfc }));
+  wfcMatch.addEventListener("click", () => updateWfc({ adjacency: "match" }));
+  wfcDeclared.addEventListener("click", () => updateWfc({ adjacency: "declared" }));
+  wfcLearned.addEventListener("click", () => updateWfc({ adjacency: "learned" }));
+
+  // Lower triangle of the palette colours against themselves: one button per pair
+  function renderWfcPairs(s: AppState) {
+    const palettes = getAllPalettes(s.customPalettes);
+    const palette = palettes[s.paletteIndex % palettes.length];
+    const colors = palette.colors.slice(0, Math.max(1, Math.min(s.paletteColorCount, palette.colors.length)));
+    const hasPair = (a: number, b: number) => s.wfc.pairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+
+    wfcPairs.innerHTML = "";
+    wfcPairs.style.gridTemplateColumns = `repeat(${colors.length + 1}, 16px)`;
+    const swatch = (color: string) => {
+      const el = document.createElement("span");
+      el.className = "wfc-pair-swatch";
+      el.style.backgroundColor = color;
+      return el;
+    };
+
+    wfcPairs.appendChild(document.createElement("span"));
+    colors.forEach((color) => wfcPairs.appendChild(swatch(color)));
+    colors.forEach((color, a) => {
+      wfcPairs.appendChild(swatch(color));
+      colors.forEach((_, b) => {
+        if (b > a) {
+          wfcPairs.appendChild(document.createElement("span"));
+          return;
+        }
+        const btn = document.createElement("button");
+        btn.className = "wfc-pair-btn";
+        btn.classList.toggle("active", hasPair(a, b));
+        btn.title = `Colour ${a + 1} beside colour ${b + 1}`;
+        btn.addEventListener("click", () => {
+          const pairs = store.get().wfc.pairs;
+          updateWfc({
+            pairs: hasPair(a, b)
+              ? pairs.filter(([x, y]) => !((x === a && y === b) || (x === b && y === a)))
+              : [...pairs, [a, b]],
+          });
+        });
+        wfcPairs.appendChild(btn);
+      });
+    });
+  }
+
+  // --- Colour rules ---
+  const constraintDistinct = $("constraint-distinct") as HTMLInputElement;
+  const constraintContrast = $("constraint-contrast") as HTMLInputElement;
+  const constraintContrastVal = $("constraint-contrast-val");
+  const constraintShare = $("constraint-share") as HTMLInputElement;
+  const constraintShareVal = $("constraint-share-val");
+
+  function updateConstraints(partial: Partial<ColorConstraints>) {
+    store.update({ constraints: { ...store.get().constraints, ...partial } });
+  }
+
+  constraintDistinct.addEventListener("change", () => {
+    updateConstraints({ distinctNeighbours: constraintDistinct.checked });
+  });
+  constraintContrast.addEventListener("input", () => {
+    updateConstraints({ minContrast: Number(constraintContrast.value) });
+  });
+  constraintShare.addEventListener("input", () => {
+    updateConstraints({ maxColorShare: Number(constraintShare.value) });
+  });
+
+  // --- Value map ---
+  const valueMapEnabled = $("value-map-enabled") as HTMLInputElement;
+  const valueMapLevels = $("value-map-levels") as HTMLInputElement;
+  const valueMapLevelsVal = $("value-map-levels-val");
+  const valuePreviewBtn = $("value-preview-btn");
+
+  valueMapEnabled.addEventListener("change", () => {
+    store.update({ valueMap: { ...store.get().valueMap, enabled: valueMapEnabled.checked } });
+  });
+  valueMapLevels.addEventListener("input", () => {
+    store.update({ valueMap: { ...store.get().valueMap, levels: Number(valueMapLevels.value) } });
+  });
+  valuePreviewBtn.addEventListener("click", () => {
+    store.update({ valuePreview: !store.get().valuePreview });
+  });
+
+  // --- Ombré ---
+  const gradientKindButtons: Record<GradientConfig["kind"], HTMLElement> = {
+    none: $("gradient-none"),
+    linear: $("gradient-linear"),
+    radial: $("gradient-radial"),
+    corner: $("gradient-corner"),
+  };
+  const gradientOrderButtons: Record<GradientConfig["order"], HTMLElement> = {
+    lightness: $("gradient-order-lightness"),
+    palette: $("gradient-order-palette"),
+  };
+  const gradientSpread = $("gradient-spread") as HTMLInputElement;
+  const gradientSpreadVal = $("gradient-spread-val");
+
+  function updateGradient(patch: Partial<GradientConfig>) {
+    store.update({ gradient: { ...store.get().gradient, ...patch } });
+  }
+
+  for (const [kind, btn] of Object.entries(gradientKindButtons) as [GradientConfig["kind"], HTMLElement][]) {
+    btn.addEventListener("click", () => updateGradient({ kind }));
+  }
+  for (const [order, btn] of Object.entries(gradientOrderButtons) as [GradientConfig["order"], HTMLElement][]) {
+    btn.addEventListener("click", () => updateGradient({ order }));
+  }
+  gradientSpread.addEventListener("input", () => {
+    updateGradient({ spread: Number(gradientSpread.value) });
+  });
+
+  // --- Scrappy ---
+  const scrappyEnabled = $("scrappy-enabled") as HTMLInputElement;
+  const scrappyColors = $("scrappy-colors") as HTMLInputElement;
+  const scrappyColorsVal = $("scrappy-colors-val");
+
+  scrappyEnabled.addEventListener("change", () => {
+    store.update({ scrappy: { ...store.get().scrappy, enabled: scrappyEnabled.checked } });
+  });
+  scrappyColors.addEventListener("input", () => {
+    store.update({ scrappy: { ...store.get().scrappy, colorsPerTile: Number(scrappyColors.value) } });
+  });
+
   // --- Shape toggles ---
   // Only user-selectable shapes (not derived shapes like HSTSplit)
-  const selectableShapes = [ShapeType.Square, ShapeType.HST, ShapeType.QST];
+  const selectableShapes = [
+    ShapeType.Square,
+    ShapeType.HST,
+    ShapeType.QST,
+    ShapeType.FlyingGeese,
+    ShapeType.HRT,
+    ShapeType.Rectangle,
+    ShapeType.DrunkardsPath,
+    ShapeType.Snowball,
+    ShapeType.FourPatch,
+    ShapeType.NinePatch,
+  ];
   for (const shape of selectableShapes) {
     const checkbox = $(`shape-${shape}`) as HTMLInputElement;
     checkbox.addEventListener("change", () => {
@@ -241,6 +665,344 @@ export function bindUI(
     });
   }
 
+  // --- Repeat offset ---
+  const repeatOffsetButtons: Record<RepeatOffset, HTMLElement> = {
+    [RepeatOffset.None]: $("repeat-offset-none"),
+    [RepeatOffset.HalfDrop]: $("repeat-offset-half-drop"),
+    [RepeatOffset.Brick]: $("repeat-offset-brick"),
+  };
+  for (const [offset, btn] of Object.entries(repeatOffsetButtons) as [RepeatOffset, HTMLElement][]) {
+    btn.addEventListener("click", () => store.update({ repeatOffset: offset }));
+  }
+
+  // --- Traditional block library ---
+  const libraryEnabled = $("block-library-enabled") as HTMLInputElement;
+  const libraryOptions = $("block-library-options");
+  const libraryList = $("block-library-list");
+  const arrangementTile = $("block-arrangement-tile");
+  const arrangementMix = $("block-arrangement-mix");
+
+  for (const block of BLOCK_LIBRARY) {
+    const item = document.createElement("label");
+    item.className = "shape-header";
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.dataset.blockId = block.id;
+    checkbox.addEventListener("change", () => {
+      const current = store.get().blockLibrary;
+      const blockIds = checkbox.checked
+        ? [...current.blockIds, block.id]
+        : current.blockIds.filter((id) => id !== block.id);
+      updateBlockLibrary({ blockIds });
+    });
+    const name = document.createElement("span");
+    name.textContent = `${block.name} (${block.cells.length}×${block.cells.length})`;
+    item.append(checkbox, name);
+    libraryList.appendChild(item);
+  }
+
+  // The repeat unit follows the largest selected block so sashing lines up
+  function updateBlockLibrary(partial: Partial<BlockLibraryConfig>) {
+    const blockLibrary = { ...store.get().blockLibrary, ...partial };
+    store.update({ blockLibrary });
+    const size = libraryUnitSize(blockLibrary.blockIds);
+    if (!blockLibrary.enabled || size === 0) return;
+    store.update({ repeatWidth: size, repeatHeight: size });
+    if (store.get().medallion.enabled) {
+      applyMedallionSize();
+    } else if (store.get().quiltSize) {
+      recalcGridForQuiltSize();
+    } else {
+      updateGridFromMultiplier();
+    }
+  }
+
+  libraryEnabled.addEventListener("change", () => {
+    updateBlockLibrary({ enabled: libraryEnabled.checked });
+  });
+  arrangementTile.addEventListener("click", () => updateBlockLibrary({ arrangement: "tile" }));
+  arrangementMix.addEventListener("click", () => updateBlockLibrary({ arrangement: "mix" }));
+
+  // --- Alternate blocks ---
+  const alternateEnabled = $("alternate-enabled") as HTMLInputElement;
+  const alternateOptions = $("alternate-options");
+  const alternatePlain = $("alternate-plain");
+  const alternatePieced = $("alternate-pieced");
+  const alternateColor = $("alternate-color");
+  const alternateShapes = $("alternate-shapes");
+
+  function updateAlternate(partial: Partial<AlternateBlockConfig>) {
+    store.update({ alternateBlock: { ...store.get().alternateBlock, ...partial } });
+  }
+
+  for (const { shape, label } of ROUND_SHAPE_LABELS) {
+    const btn = document.createElement("button");
+    btn.className = "sym-mode-btn";
+    btn.dataset.shape = shape;
+    btn.textContent = label;
+    btn.addEventListener("click", () => {
+      const current = store.get().alternateBlock.shapes;
+      updateAlternate({ shapes: current.includes(shape) ? current.filter((s) => s !== shape) : [...current, shape] });
+    });
+    alternateShapes.appendChild(btn);
+  }
+
+  alternateEnabled.addEventListener("change", () => updateAlternate({ enabled: alternateEnabled.checked }));
+  alternatePlain.addEventListener("click", () => updateAlternate({ kind: "plain" }));
+  alternatePieced.addEventListener("click", () => updateAlternate({ kind: "pieced" }));
+
+  // --- Medallion ---
+  const medallionEnabled = $("medallion-enabled") as HTMLInputElement;
+  const medallionOptions = $("medallion-options");
+  const medallionRoundsList = $("medallion-rounds");
+  const medallionAddRound = $("medallion-add-round") as HTMLButtonElement;
+  let renderedRounds: MedallionRound[] | null = null;
+
+  // The grid is the centre tile plus its rounds, so it follows them
+  function applyMedallionSize() {
+    const s = store.get();
+    if (!s.medallion.enabled) return;
+    const { width, height } = medallionSize(s);
+    if (width !== s.gridWidth || height !== s.gridHeight) {
+      store.update({ gridWidth: width, gridHeight: height });
+    }
+  }
+
+  function updateMedallion(partial: Partial<MedallionConfig>) {
+    store.update({ medallion: { ...store.get().medallion, ...partial } });
+    applyMedallionSize();
+  }
+
+  function updateRound(index: number, partial: Partial<MedallionRound>) {
+    const rounds = store.get().medallion.rounds.map((r, i) => (i === index ? { ...r, ...partial } : r));
+    updateMedallion({ rounds });
+  }
+
+  function renderMedallionRounds(rounds: MedallionRound[]) {
+    renderedRounds = rounds;
+    medallionRoundsList.innerHTML = "";
+    rounds.forEach((round, index) => {
+      const row = document.createElement("div");
+      row.className = "medallion-round";
+
+      const name = document.createElement("span");
+      name.className = "medallion-round-name";
+      name.textContent = String(index + 1);
+
+      const style = document.createElement("select");
+      style.className = "border-width-select";
+      for (const { style: value, label } of ROUND_STYLE_LABELS) {
+        style.add(new Option(label, value, false, value === round.style));
+      }
+      style.addEventListener("change", () => updateRound(index, { style: style.value as RoundStyle }));
+
+      const depth = document.createElement("select");
+      depth.className = "border-width-select medallion-round-depth";
+      depth.title = "Width of the round in blocks";
+      for (let d = 1; d <= 3; d++) {
+        depth.add(new Option(`${d} deep`, String(d), false, d === round.depth));
+      }
+      depth.addEventListener("change", () => updateRound(index, { depth: Number(depth.value) }));
+
+      const remove = document.createElement("button");
+      remove.className = "medallion-round-remove";
+      remove.textContent = "✕";
+      remove.title = "Remove round";
+      remove.addEventListener("click", () => {
+        updateMedallion({ rounds: store.get().medallion.rounds.filter((_, i) => i !== index) });
+      });
+
+      row.append(name, style, depth, remove);
+      medallionRoundsList.appendChild(row);
+
+      if (round.style !== RoundStyle.Pieced) return;
+      const shapes = document.createElement("div");
+      shapes.className = "medallion-round-shapes";
+      for (const { shape, label } of ROUND_SHAPE_LABELS) {
+        const btn = document.createElement("button");
+        btn.className = "sym-mode-btn";
+        btn.classList.toggle("active", round.shapes.includes(shape));
+        btn.textContent = label;
+        btn.addEventListener("click", () => {
+          const current = store.get().medallion.rounds[index].shapes;
+          updateRound(index, {
+            shapes: current.includes(shape) ? current.filter((s) => s !== shape) : [...current, shape],
+          });
+        });
+        shapes.appendChild(btn);
+      }
+      medallionRoundsList.appendChild(shapes);
+    });
+  }
+
+  medallionEnabled.addEventListener("change", () => {
+    // The rounds set the quilt's size, so a size preset no longer applies
+    if (medallionEnabled.checked && store.get().quiltSize) {
+      store.update({ quiltSize: "" });
+    }
+    if (medallionEnabled.checked && store.get().rowQuilt.enabled) {
+      store.update({ rowQuilt: { ...store.get().rowQuilt, enabled: false } });
+    }
+    updateMedallion({ enabled: medallionEnabled.checked });
+    if (!medallionEnabled.checked) {
+      updateGridFromMultiplier();
+    }
+  });
+
+  // --- Row quilt ---
+  const rowQuiltEnabled = $("row-quilt-enabled") as HTMLInputElement;
+  const rowQuiltOptions = $("row-quilt-options");
+  const rowBandsList = $("row-quilt-bands");
+  const rowAddBand = $("row-quilt-add-band") as HTMLButtonElement;
+  let renderedBands: RowBand[] | null = null;
+  const openBandShapes = new Set<number>(); // bands whose ratio sliders are showing
+
+  // The grid is as tall as the bands; the width still follows the grid slider
+  function applyRowQuiltSize() {
+    const s = store.get();
+    if (!s.rowQuilt.enabled) return;
+    const height = rowQuiltHeight(s);
+    if (height !== s.gridHeight) {
+      store.update({ gridHeight: height });
+    }
+  }
+
+  function updateRowQuilt(partial: Partial<RowQuiltConfig>) {
+    store.update({ rowQuilt: { ...store.get().rowQuilt, ...partial } });
+    applyRowQuiltSize();
+  }
+
+  function updateBand(index: number, partial: Partial<RowBand>) {
+    const bands = store.get().rowQuilt.bands.map((b, i) => (i === index ? { ...b, ...partial } : b));
+    updateRowQuilt({ bands });
+  }
+
+  function numberSelect(value: number, max: number, label: (n: number) => string, onChange: (n: number) => void) {
+    const select = document.createElement("select");
+    select.className = "border-width-select row-band-size";
+    for (let n = 1; n <= max; n++) {
+      select.add(new Option(label(n), String(n), false, n === value));
+    }
+    select.addEventListener("change", () => onChange(Number(select.value)));
+    return select;
+  }
+
+  function renderRowBands(bands: RowBand[]) {
+    renderedBands = bands;
+    rowBandsList.innerHTML = "";
+    bands.forEach((band, index) => {
+      const item = document.createElement("div");
+      item.className = "row-band";
+
+      const sizeRow = document.createElement("div");
+      sizeRow.className = "medallion-round";
+      const name = document.createElement("span");
+      name.className = "medallion-round-name";
+      name.textContent = String(index + 1);
+      const height = numberSelect(band.height, 6, (n) => `${n} tall`, (n) => updateBand(index, { height: n }));
+      height.title = "Band height in blocks";
+      const width = numberSelect(band.tileWidth, 8, (n) => `${n} wide`, (n) => updateBand(index, { tileWidth: n }));
+      width.title = "Width of the band's repeat tile";
+      const remove = document.createElement("button");
+      remove.className = "medallion-round-remove";
+      remove.textContent = "✕";
+      remove.title = "Remove band";
+      remove.disabled = bands.length <= 1;
+      remove.addEventListener("click", () => {
+        updateRowQuilt({ bands: store.get().rowQuilt.bands.filter((_, i) => i !== index) });
+      });
+      sizeRow.append(name, height, width, remove);
+
+      const modeRow = document.createElement("div");
+      modeRow.className = "medallion-round row-band-indent";
+      const symmetry = document.createElement("select");
+      symmetry.className = "border-width-select";
+      symmetry.title = "Symmetry within the band's tile";
+      for (const { mode, label, title } of SYMMETRY_MODE_LABELS) {
+        const option = new Option(label, mode, false, mode === band.symmetryMode);
+        if (title) option.title = title;
+        symmetry.add(option);
+      }
+      symmetry.addEventListener("change", () => updateBand(index, { symmetryMode: symmetry.value as SymmetryMode }));
+      const seed = document.createElement("input");
+      seed.type = "number";
+      seed.className = "row-band-seed";
+      seed.value = String(band.seedOffset);
+      seed.title = "Seed offset: bands with the same settings and offset come out the same";
+      seed.addEventListener("change", () => updateBand(index, { seedOffset: Math.round(Number(seed.value)) || 0 }));
+      modeRow.append(symmetry, seed);
+
+      const shapes = document.createElement("details");
+      shapes.className = "row-band-indent";
+      const summary = document.createElement("summary");
+      summary.className = "hint";
+      summary.textContent = "Shape ratios";
+      shapes.appendChild(summary);
+      for (const { shape, label } of BAND_SHAPE_LABELS) {
+        const row = document.createElement("div");
+        row.className = "slider-row";
+        const text = document.createElement("span");
+        text.className = "row-band-shape";
+        text.textContent = label;
+        const slider = document.createElement("input");
+        slider.type = "range";
+        slider.min = "0";
+        slider.max = "100";
+        slider.value = String(band.shapeRatios[shape] ?? 0);
+        const val = document.createElement("span");
+        val.className = "val";
+        val.textContent = slider.value;
+        slider.addEventListener("input", () => {
+          val.textContent = slider.value;
+        });
+        slider.addEventListener("change", () => {
+          const ratios = store.get().rowQuilt.bands[index].shapeRatios;
+          updateBand(index, { shapeRatios: { ...ratios, [shape]: Number(slider.value) } });
+        });
+        row.append(text, slider, val);
+        shapes.appendChild(row);
+      }
+      // Keep the ratios open while they're being adjusted
+      shapes.open = openBandShapes.has(index);
+      shapes.addEventListener("toggle", () => {
+        if (shapes.open) openBandShapes.add(index);
+        else openBandShapes.delete(index);
+      });
+
+      item.append(sizeRow, modeRow, shapes);
+      rowBandsList.appendChild(item);
+    });
+  }
+
+  rowQuiltEnabled.addEventListener("change", () => {
+    if (rowQuiltEnabled.checked && store.get().medallion.enabled) {
+      store.update({ medallion: { ...store.get().medallion, enabled: false } });
+    }
+    updateRowQuilt({ enabled: rowQuiltEnabled.checked });
+    if (store.get().quiltSize) {
+      recalcGridForQuiltSize();
+    } else {
+      updateGridFromMultiplier();
+    }
+  });
+
+  rowAddBand.addEventListener("click", () => {
+    const bands = store.get().rowQuilt.bands;
+    const last = bands[bands.length - 1];
+    // A new band starts as a copy of the last one with a fresh seed
+    updateRowQuilt({
+      bands: [...bands, { ...last, shapeRatios: { ...last.shapeRatios }, seedOffset: last.seedOffset + 1 }],
+    });
+  });
+
+  medallionAddRound.addEventListener("click", () => {
+    const rounds = store.get().medallion.rounds;
+    const last = rounds[rounds.length - 1];
+    updateMedallion({
+      rounds: [...rounds, last ? { ...last, shapes: [...last.shapes] } : { style: RoundStyle.Sawtooth, depth: 1, shapes: [] }],
+    });
+  });
+
   // --- Palette swatches ---
   const palContainer = $("palette-swatches");
   const baseCount = BASE_PALETTES.length;
@@ -275,36 +1037,31 @@ export function bindUI(
         btn.appendChild(dot);
       }
       btn.addEventListener("click", () => {
-        // Remap border colors to new palette
+        // Border roles carry over to the new palette as they are; colours
+        // picked before they were roles take the role of their old slot
         const state = store.get();
         const oldPalettes = getAllPalettes(state.customPalettes);
         const oldPalette = oldPalettes[state.paletteIndex % oldPalettes.length];
-        const newPalette = palettes[idx % palettes.length];
         
-        // Helper to remap a color from old palette index to new palette color
-        const remapColors = (colors: string[]): string[] => {
-          return colors.map((color, i) => {
-            // Find index in old palette
-            const oldIdx = oldPalette.colors.findIndex(c => c.toUpperCase() === color.toUpperCase());
-            // Use same index in new palette, or fallback to position-based
-            const useIdx = oldIdx >= 0 ? oldIdx : i;
-            return newPalette.colors[useIdx % newPalette.colors.length];
-          });
+        const toRole = (color: string, fallback: number): string => {
+          if (roleSlot(color) >= 0) return color;
+          const oldIdx = oldPalette.colors.findIndex(c => c.toUpperCase() === color.toUpperCase());
+          return roleColor(oldIdx >= 0 ? oldIdx : fallback);
         };
+        const remapColors = (colors: string[]): string[] => colors.map((color, i) => toRole(color, i));
         
         const newOuterColors = remapColors(state.outerBorder?.colors || []);
         const newSashingColors = remapColors(state.sashingBorder?.colors || []);
-        const newCornerstoneColor = (() => {
-          const color = state.sashingBorder?.cornerstoneColor;
-          if (!color) return newPalette.colors[0];
-          const oldIdx = oldPalette.colors.findIndex(c => c.toUpperCase() === color.toUpperCase());
-          return newPalette.colors[(oldIdx >= 0 ? oldIdx : 0) % newPalette.colors.length];
-        })();
+        const cornerstoneColor = state.sashingBorder?.cornerstoneColor;
+        const newCornerstoneColor = cornerstoneColor ? toRole(cornerstoneColor, 0) : roleColor(0);
+        const alternate = state.alternateBlock;
         
         store.update({ 
           paletteIndex: idx,
           outerBorder: { ...state.outerBorder, colors: newOuterColors },
-          sashingBorder: { ...state.sashingBorder, colors: newSashingColors, cornerstoneColor: newCornerstoneColor }
+          sashingBorder: { ...state.sashingBorder, colors: newSashingColors, cornerstoneColor: newCornerstoneColor },
+          settingColor: state.settingColor && toRole(state.settingColor, 0),
+          alternateBlock: { ...alternate, color: alternate.color && toRole(alternate.color, 0) },
         });
         updatePaletteSelection(idx);
       });
@@ -382,6 +1139,7 @@ export function bindUI(
     editorSwatches = palette.swatches 
       ? [...palette.swatches] 
       : [...palette.colors];
+    editorWeights = paletteWeights(palette, editorSwatches.length);
     
     renderSwatchEditor();
     paletteModal.classList.add("open");
@@ -430,9 +1188,17 @@ export function bindUI(
   // Swatch state for the editor (can be color or fabric)
   const DEFAULT_COLORS = ["#6E6259", "#8C8075", "#A99D92", "#C7BCB1", "#DED6CC", "#F1ECE4"];
   let editorSwatches: Swatch[] = [...DEFAULT_COLORS];
+  let editorWeights: number[] = DEFAULT_COLORS.map(() => DEFAULT_WEIGHT);
   
   function renderSwatchEditor() {
     paletteSwatchesEditor.innerHTML = "";
+    const shareLabels: HTMLElement[] = [];
+    const updateShares = () => {
+      const total = editorWeights.reduce((sum, w) => sum + w, 0);
+      shareLabels.forEach((label, idx) => {
+        label.textContent = `${total > 0 ? Math.round((editorWeights[idx] / total) * 100) : 0}%`;
+      });
+    };
     
     editorSwatches.forEach((swatch, idx) => {
       const slot = document.createElement("div");
@@ -491,9 +1257,30 @@ export function bindUI(
         };
         slot.appendChild(thumb);
       }
+
+      // How often this colour is drawn, shown as its share of all the draws
+      const weightRow = document.createElement("div");
+      weightRow.className = "swatch-weight";
+      weightRow.title = "How often this colour is used";
+      const weightInput = document.createElement("input");
+      weightInput.type = "range";
+      weightInput.min = "0";
+      weightInput.max = String(MAX_WEIGHT);
+      weightInput.step = "1";
+      weightInput.value = String(editorWeights[idx]);
+      const shareLabel = document.createElement("span");
+      shareLabels.push(shareLabel);
+      weightInput.addEventListener("input", () => {
+        editorWeights[idx] = Number(weightInput.value);
+        updateShares();
+      });
+      weightRow.appendChild(weightInput);
+      weightRow.appendChild(shareLabel);
+      slot.appendChild(weightRow);
       
       paletteSwatchesEditor.appendChild(slot);
     });
+    updateShares();
   }
   
   function openFabricEditor(dataUrl: string) {
@@ -533,6 +1320,7 @@ export function bindUI(
   createPaletteBtn.addEventListener("click", () => {
     editingPaletteIndex = null; // Creating new, not editing
     editorSwatches = [...DEFAULT_COLORS];
+    editorWeights = DEFAULT_COLORS.map(() => DEFAULT_WEIGHT);
     paletteName.value = "";
     paletteAddBtn.textContent = "Add Palette";
     renderSwatchEditor();
@@ -614,16 +1402,18 @@ export function bindUI(
     );
     const customPalettes = [...store.get().customPalettes];
     const name = sanitizePaletteName(paletteName.value, customPalettes.length + 1);
+    // Palettes left at the default weights are saved without them
+    const weights = editorWeights.some((w) => w !== DEFAULT_WEIGHT) ? [...editorWeights] : undefined;
     
     let newPaletteIndex: number;
     
     if (editingPaletteIndex !== null) {
       // Editing existing palette
-      customPalettes[editingPaletteIndex] = { name, colors, swatches: [...editorSwatches] };
+      customPalettes[editingPaletteIndex] = { name, colors, swatches: [...editorSwatches], weights };
       newPaletteIndex = baseCount + editingPaletteIndex;
     } else {
       // Creating new palette
-      customPalettes.push({ name, colors, swatches: [...editorSwatches] });
+      customPalettes.push({ name, colors, swatches: [...editorSwatches], weights });
       newPaletteIndex = baseCount + customPalettes.length - 1;
     }
     
@@ -639,7 +1429,10 @@ export function bindUI(
   const paletteCount = $("palette-count") as HTMLInputElement;
   const paletteCountVal = $("palette-count-val");
   const colorModeMax = $("color-mode-max");
-  const colorModeExact = $("color-mode-exact");
+  const colorModeExact = $("color-mode-exact") as HTMLButtonElement;
+  const minPatchesRow = $("min-patches-row");
+  const minPatches = $("min-patches") as HTMLInputElement;
+  const minPatchesVal = $("min-patches-val");
   
   paletteCount.addEventListener("input", () => {
     paletteCountVal.textContent = paletteCount.value;
@@ -653,10 +1446,20 @@ export function bindUI(
   colorModeExact.addEventListener("click", () => {
     store.update({ colorCountMode: "exact" });
   });
+
+  minPatches.addEventListener("input", () => {
+    store.update({ minColorPatches: Number(minPatches.value) });
+  });
   
-  function updateColorModeButtons(mode: "max" | "exact") {
+  // Named blocks keep to their own colours, so a library grid is always "up to"
+  function updateColorModeButtons(s: AppState) {
+    const fits = fitsExactColors(s);
+    const mode = fits ? s.colorCountMode || "max" : "max";
     colorModeMax.classList.toggle("active", mode === "max");
     colorModeExact.classList.toggle("active", mode === "exact");
+    colorModeExact.disabled = !fits;
+    colorModeExact.title = fits ? "" : "Library blocks use only the colours their roles need";
+    minPatchesRow.style.display = mode === "exact" ? "flex" : "none";
   }
 
   // --- Border controls ---
@@ -674,6 +1477,22 @@ export function bindUI(
   const cornerstoneRow = $("cornerstone-row");
   const sashingCornerstone = $("sashing-cornerstone") as HTMLSelectElement;
 
+  // Border, cornerstone, setting and alternate colours are palette roles, so
+  // they follow palette switches and edits like the design does. Swatch i
+  // shows the colour role i is drawn in after any recolour.
+  function rolePalette(): Palette {
+    const state = store.get();
+    const palettes = getAllPalettes(state.customPalettes);
+    return recolorPalette(palettes[state.paletteIndex % palettes.length], state.recolor);
+  }
+
+  /** Whether a picked colour is role `idx`, or (picked before colours were roles) its colour */
+  function isPicked(picked: string | undefined, idx: number, palette: Palette): boolean {
+    if (!picked) return false;
+    if (roleSlot(picked) >= 0) return roleSlot(picked) === idx;
+    return picked.toUpperCase() === palette.colors[idx]?.toUpperCase();
+  }
+
   function renderBorderColorPickers(
     container: HTMLElement,
     borderType: "outerBorder" | "sashingBorder",
@@ -681,8 +1500,7 @@ export function bindUI(
   ) {
     container.innerHTML = "";
     const state = store.get();
-    const palettes = getAllPalettes(state.customPalettes);
-    const palette = palettes[state.paletteIndex % palettes.length];
+    const palette = rolePalette();
     const currentColors = state[borderType].colors;
     const swatches = palette.swatches || palette.colors;
     
@@ -699,10 +1517,10 @@ export function bindUI(
       swatchRow.className = "border-swatch-row";
       
       swatches.forEach((swatch, idx) => {
-        const color = palette.colors[idx];
+        const color = roleColor(idx);
         const btn = document.createElement("button");
         btn.className = "border-swatch-btn";
-        if (currentColors[i] === color || (!currentColors[i] && idx === i % palette.colors.length)) {
+        if (isPicked(currentColors[i], idx, palette) || (!currentColors[i] && idx === i % palette.colors.length)) {
           btn.classList.add("active");
         }
         
@@ -738,7 +1556,7 @@ export function bindUI(
     // Ensure we have enough colors, using palette defaults
     const currentColors = [...(state[borderType]?.colors || [])];
     while (currentColors.length < count) {
-      currentColors.push(palette.colors[currentColors.length % palette.colors.length]);
+      currentColors.push(roleColor(currentColors.length % palette.colors.length));
     }
     
     // Preserve existing config (widthFraction, cornerstoneColor) while updating lineCount and colors
@@ -755,8 +1573,7 @@ export function bindUI(
 
   function renderCornerstoneSelector() {
     const state = store.get();
-    const palettes = getAllPalettes(state.customPalettes);
-    const palette = palettes[state.paletteIndex % palettes.length];
+    const palette = rolePalette();
     const currentColor = state.sashingBorder?.cornerstoneColor;
     const swatches = palette.swatches || palette.colors;
     
@@ -775,10 +1592,10 @@ export function bindUI(
     swatchRow.innerHTML = "";
     
     swatches.forEach((swatch, idx) => {
-      const color = palette.colors[idx];
+      const color = roleColor(idx);
       const btn = document.createElement("button");
       btn.className = "border-swatch-btn";
-      if (currentColor === color || (!currentColor && idx === 0)) {
+      if (isPicked(currentColor, idx, palette) || (!currentColor && idx === 0)) {
         btn.classList.add("active");
       }
       
@@ -802,6 +1619,53 @@ export function bindUI(
     });
   }
 
+  // --- On-point setting ---
+  const onPointCheckbox = $("on-point") as HTMLInputElement;
+  const settingColorRow = $("setting-color-row");
+  const settingColorSwatches = $("setting-color");
+
+  onPointCheckbox.addEventListener("change", () => {
+    store.update({ onPoint: onPointCheckbox.checked });
+    if (store.get().quiltSize) {
+      recalcGridForQuiltSize();
+    }
+  });
+
+  // One swatch per palette role; "" selects the first
+  function renderPaletteColorPicker(container: HTMLElement, selected: string, onPick: (color: string) => void) {
+    const palette = rolePalette();
+    const swatches = palette.swatches || palette.colors;
+    container.innerHTML = "";
+
+    swatches.forEach((swatch, idx) => {
+      const color = roleColor(idx);
+      const btn = document.createElement("button");
+      btn.className = "border-swatch-btn";
+      if (isPicked(selected, idx, palette) || (!selected && idx === 0)) {
+        btn.classList.add("active");
+      }
+
+      if (isFabricSwatch(swatch)) {
+        btn.style.backgroundImage = `url(${swatch.dataUrl})`;
+        btn.style.backgroundSize = "cover";
+        btn.title = `Fabric ${idx + 1}`;
+      } else {
+        btn.style.backgroundColor = swatch;
+        btn.title = `Color ${idx + 1}`;
+      }
+
+      btn.addEventListener("click", () => onPick(color));
+
+      container.appendChild(btn);
+    });
+  }
+
+  function renderSettingColorSelector() {
+    renderPaletteColorPicker(settingColorSwatches, store.get().settingColor, (settingColor) => {
+      store.update({ settingColor });
+    });
+  }
+
   outerBorderCount.addEventListener("input", () => {
     const count = Number(outerBorderCount.value);
     outerBorderCountVal.textContent = String(count);
@@ -911,16 +1775,28 @@ export function bindUI(
     const cols = s.gridWidth;
     const rows = s.gridHeight;
 
+    // Hexagons are sized by side length; borders and sashing don't apply
+    if (s.tessellation === Tessellation.Hex) {
+      return hexGridSize(rows, cols, s.hex.sizeInches);
+    }
+
     // Outer border: lineCount lines on each side, each line = widthFraction * blockSize
     const outerLineCount = s.outerBorder?.lineCount || 0;
     const outerWidthFrac = s.outerBorder?.widthFraction || 1;
     const totalOuterPerSide = outerLineCount * outerWidthFrac * blockSize;
 
+    // On point: blocks are measured along their diagonals, with no sashing
+    if (s.onPoint) {
+      return {
+        width: cols * blockSize * Math.SQRT2 + totalOuterPerSide * 2,
+        height: rows * blockSize * Math.SQRT2 + totalOuterPerSide * 2,
+      };
+    }
+
     // Sashing: between repeat blocks
     const sashingLineCount = s.sashingBorder?.lineCount || 0;
     const sashingWidthFrac = s.sashingBorder?.widthFraction || 1;
-    const sashingGapsX = s.repeatWidth > 0 ? Math.floor((cols - 1) / s.repeatWidth) : 0;
-    const sashingGapsY = s.repeatHeight > 0 ? Math.floor((rows - 1) / s.repeatHeight) : 0;
+    const { x: sashingGapsX, y: sashingGapsY } = sashingGaps(repeatLayout(s, rows, cols));
     const totalSashingX = sashingGapsX * sashingLineCount * sashingWidthFrac * blockSize;
     const totalSashingY = sashingGapsY * sashingLineCount * sashingWidthFrac * blockSize;
 
@@ -950,22 +1826,24 @@ export function bindUI(
   function recalcGridForQuiltSize() {
     const s = store.get();
     const quilt = QUILT_SIZES[s.quiltSize];
-    if (!quilt) return;
-    const blockSize = s.blockSizeInches;
+    if (!quilt || s.medallion.enabled) return;
+    // On point, each block spans its diagonal across the quilt
+    const blockSize = s.onPoint ? s.blockSizeInches * Math.SQRT2 : s.blockSizeInches;
     const repW_ = s.repeatWidth || 4;
     const repH_ = s.repeatHeight || 4;
     const totalCols = Math.ceil(quilt.width / blockSize);
     const totalRows = Math.ceil(quilt.length / blockSize);
     const newGridW = Math.ceil(totalCols / repW_) * repW_;
     const newGridH = Math.ceil(totalRows / repH_) * repH_;
-    store.update({ gridWidth: newGridW, gridHeight: newGridH });
+    // A row quilt's height comes from its bands
+    store.update({ gridWidth: newGridW, gridHeight: s.rowQuilt.enabled ? rowQuiltHeight(s) : newGridH });
   }
 
-  function updateGridSlidersDisabled(locked: boolean) {
+  function updateGridSlidersDisabled(locked: boolean, heightLocked = locked) {
     gridW.disabled = locked;
-    gridH.disabled = locked;
+    gridH.disabled = heightLocked;
     gridW.style.opacity = locked ? "0.4" : "";
-    gridH.style.opacity = locked ? "0.4" : "";
+    gridH.style.opacity = heightLocked ? "0.4" : "";
   }
 
   scaleEnabled.addEventListener("change", () => {
@@ -1043,6 +1921,10 @@ export function bindUI(
     exportCuttingListBtn.addEventListener("click", actions.onExportCuttingList);
   }
 
+  if (actions?.onExportEppTemplate) {
+    exportEppBtn.addEventListener("click", actions.onExportEppTemplate);
+  }
+
   // --- Auth & Share ---
   const authBtn = $("auth-btn");
   let currentUser: User | null = null;
@@ -1098,14 +1980,103 @@ export function bindUI(
     repH.value = String(s.repeatHeight);
     repWVal.textContent = String(s.repeatWidth);
     repHVal.textContent = String(s.repeatHeight);
+    for (const [offset, btn] of Object.entries(repeatOffsetButtons)) {
+      btn.classList.toggle("active", s.repeatOffset === offset);
+    }
     
+    syncHexControls();
+    syncReroll();
+    syncBreed();
+
+    // Block library (repeat size is fixed by the selected blocks)
+    const library = s.blockLibrary;
+    libraryEnabled.checked = library.enabled;
+    libraryOptions.style.display = library.enabled ? "block" : "none";
+    libraryList.querySelectorAll("input").forEach((input) => {
+      input.checked = library.blockIds.includes(input.dataset.blockId!);
+    });
+    arrangementTile.classList.toggle("active", library.arrangement === "tile");
+    arrangementMix.classList.toggle("active", library.arrangement === "mix");
+    repW.disabled = library.enabled;
+    repH.disabled = library.enabled;
+
+    const alternate = s.alternateBlock;
+    alternateEnabled.checked = alternate.enabled;
+    alternateOptions.style.display = alternate.enabled ? "block" : "none";
+    alternatePlain.classList.toggle("active", alternate.kind === "plain");
+    alternatePieced.classList.toggle("active", alternate.kind === "pieced");
+    alternateColor.style.display = alternate.kind === "plain" ? "flex" : "none";
+    alternateShapes.style.display = alternate.kind === "pieced" ? "flex" : "none";
+    if (alternate.enabled && alternate.kind === "plain") {
+      renderPaletteColorPicker(alternateColor, alternate.color, (color) => updateAlternate({ color }));
+    }
+    alternateShapes.querySelectorAll<HTMLButtonElement>("button").forEach((btn) => {
+      btn.classList.toggle("active", alternate.shapes.includes(btn.dataset.shape as ShapeType));
+    });
+
+    medallionEnabled.checked = s.medallion.enabled;
+    medallionOptions.style.display = s.medallion.enabled ? "block" : "none";
+    medallionAddRound.disabled = s.medallion.rounds.length >= MAX_MEDALLION_ROUNDS;
+    if (s.medallion.rounds !== renderedRounds) {
+      renderMedallionRounds(s.medallion.rounds);
+    }
+
+    rowQuiltEnabled.checked = s.rowQuilt.enabled;
+    rowQuiltOptions.style.display = s.rowQuilt.enabled ? "block" : "none";
+    rowAddBand.disabled = s.rowQuilt.bands.length >= MAX_ROW_BANDS;
+    if (s.rowQuilt.bands !== renderedBands) {
+      renderRowBands(s.rowQuilt.bands);
+    }
+
+    generatorRandom.classList.toggle("active", s.generator === Generator.Random);
+    generatorWfc.classList.toggle("active", s.generator === Generator.Wfc);
+    wfcOptions.style.display = s.generator === Generator.Wfc ? "block" : "none";
+    wfcMatch.classList.toggle("active", s.wfc.adjacency === "match");
+    wfcDeclared.classList.toggle("active", s.wfc.adjacency === "declared");
+    wfcLearned.classList.toggle("active", s.wfc.adjacency === "learned");
+    wfcPairs.style.display = s.wfc.adjacency === "declared" ? "grid" : "none";
+    wfcLearn.style.display = s.wfc.adjacency === "learned" ? "block" : "none";
+    wfcHint.style.display = s.wfc.adjacency === "learned" ? "none" : "block";
+    const sample = s.wfc.sample ?? [];
+    wfcSampleInfo.textContent = sample.length > 0
+      ? `Learned from a ${sample[0].length} × ${sample.length} design. Blocks only meet as they met there; a tile it can't be stretched to is filled at random.`
+      : "Nothing learned yet: blocks are chosen at random.";
+    if (s.generator === Generator.Wfc && s.wfc.adjacency === "declared") {
+      renderWfcPairs(s);
+    }
+
+    constraintDistinct.checked = s.constraints.distinctNeighbours;
+    constraintContrast.value = String(s.constraints.minContrast);
+    constraintContrastVal.textContent = s.constraints.minContrast > 0 ? String(s.constraints.minContrast) : "off";
+    constraintShare.value = String(s.constraints.maxColorShare);
+    constraintShareVal.textContent = s.constraints.maxColorShare < 100 ? `${s.constraints.maxColorShare}%` : "off";
+
+    valueMapEnabled.checked = s.valueMap.enabled;
+    valueMapLevels.value = String(s.valueMap.levels);
+    valueMapLevelsVal.textContent = String(s.valueMap.levels);
+    valuePreviewBtn.classList.toggle("active", s.valuePreview);
+    for (const [kind, btn] of Object.entries(gradientKindButtons)) {
+      btn.classList.toggle("active", s.gradient.kind === kind);
+    }
+    for (const [order, btn] of Object.entries(gradientOrderButtons)) {
+      btn.classList.toggle("active", s.gradient.order === order);
+    }
+    gradientSpread.value = String(s.gradient.spread);
+    gradientSpreadVal.textContent = String(s.gradient.spread);
+    scrappyEnabled.checked = s.scrappy.enabled;
+    scrappyColors.value = String(s.scrappy.colorsPerTile);
+    scrappyColorsVal.textContent = s.scrappy.colorsPerTile > 0 ? String(s.scrappy.colorsPerTile) : "All";
+
     symSlider.value = String(s.symmetry);
     symVal.textContent = `${s.symmetry}%`;
     updateSymModeSelection(s.symmetryMode);
+    renderSymmetryCells(s);
     renderPaletteSwatches(getAllPalettes(s.customPalettes), s.paletteIndex);
     paletteCount.value = String(s.paletteColorCount);
     paletteCountVal.textContent = String(s.paletteColorCount);
-    updateColorModeButtons(s.colorCountMode || "max");
+    updateColorModeButtons(s);
+    minPatches.value = String(s.minColorPatches ?? 1);
+    minPatchesVal.textContent = String(s.minColorPatches ?? 1);
     
     // Border controls
     const outerCount = s.outerBorder?.lineCount || 0;
@@ -1121,6 +2092,13 @@ export function bindUI(
     renderBorderColorPickers(outerBorderColors, "outerBorder", outerCount);
     renderBorderColorPickers(sashingBorderColors, "sashingBorder", sashingCount);
     
+    // On-point setting
+    onPointCheckbox.checked = s.onPoint;
+    settingColorRow.style.display = s.onPoint ? "flex" : "none";
+    if (s.onPoint) {
+      renderSettingColorSelector();
+    }
+
     // Cornerstone selector
     cornerstoneRow.style.display = sashingCount > 0 ? "flex" : "none";
     if (sashingCount > 0) {
@@ -1132,20 +2110,23 @@ export function bindUI(
     updateScaleVisibility(s.scaleEnabled);
     blockSizeCustomRow.style.display = s.blockSizeCustom ? "flex" : "none";
     quiltSizeSelect.value = s.quiltSize;
-    updateGridSlidersDisabled(s.scaleEnabled && !!s.quiltSize);
+    quiltSizeSelect.disabled = s.medallion.enabled;
+    const sizeLocked = (s.scaleEnabled && !!s.quiltSize) || s.medallion.enabled;
+    updateGridSlidersDisabled(sizeLocked, sizeLocked || s.rowQuilt.enabled);
     updateQuiltDimensions();
 
     // Update current design name
-    const gen = loadGenerations().find(g => g.seed === s.seed);
-    currentDesignName.textContent = gen?.name || generateName(s.seed);
+    const gen = loadGenerations().find(g => isGeneration(g, s.seed, s.colorSeed));
+    currentDesignName.textContent = gen?.name || generateName(s.seed, s.colorSeed);
   });
 
   // --- Initial sync ---
   updateSymModeSelection(store.get().symmetryMode);
+  renderSymmetryCells(store.get());
+  syncHexControls();
   renderPaletteSwatches(getAllPalettes(store.get().customPalettes), store.get().paletteIndex);
   
-  // Save initial seed to generations
-  const initialSeed = store.get().seed;
-  const initialGen = saveGeneration(initialSeed);
+  // Save initial seeds to generations
+  const initialGen = saveGeneration(store.get().seed, store.get().colorSeed);
   currentDesignName.textContent = initialGen.name;
 }
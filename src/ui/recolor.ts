@@ -0,0 +1,181 @@
+// Recolour panel: the colours used in the current design, one swatch per
+// palette role. Swapping two swatches (click one, then the other, or drag one
+// onto the other) swaps those colours everywhere; shuffle steps through every
+// ordering of the used colours in turn. The design is never regenerated, only
+// drawn with the palette slots permuted (state.recolor).
+
+import type { Store } from "../state";
+import { type Palette, isFabricSwatch } from "../types";
+import { recoloredSlot } from "../palette";
+
+function $(id: string): HTMLElement {
+  return document.getElementById(id)!;
+}
+
+const PREVIEW_COUNT = 4;
+
+export interface RecolorCallbacks {
+  getUsedRoles: () => number[];  // roles in the current design, ascending ([] = nothing to recolour)
+  getPalette: () => Palette;     // active palette, before the recolour
+  renderPreview: (recolor: number[]) => HTMLCanvasElement;
+}
+
+let store: Store;
+let callbacks: RecolorCallbacks;
+let section: HTMLDetailsElement | null = null;
+let swatchRow: HTMLElement;
+let shuffleBtn: HTMLButtonElement;
+let resetBtn: HTMLButtonElement;
+let info: HTMLElement;
+let previews: HTMLElement;
+
+// Role clicked first in a click-to-swap
+let picked: number | null = null;
+
+/** Slots the used roles are drawn in, in role order */
+function assignment(roles: number[], recolor: number[]): number[] {
+  return roles.map((role) => recoloredSlot(recolor, role));
+}
+
+/** Recolour giving each used role the matching slot; the other roles keep theirs */
+function withAssignment(roles: number[], slots: number[], recolor: number[]): number[] {
+  const size = Math.max(callbacks.getPalette().colors.length, recolor.length);
+  const next = Array.from({ length: size }, (_, role) => recoloredSlot(recolor, role));
+  roles.forEach((role, i) => (next[role] = slots[i]));
+  return next;
+}
+
+/** The next ordering in lexicographic order, wrapping from the last to the first */
+function nextPermutation(slots: number[]): number[] {
+  const next = [...slots];
+  let i = next.length - 2;
+  while (i >= 0 && next[i] >= next[i + 1]) i--;
+  if (i < 0) return next.reverse();
+  let j = next.length - 1;
+  while (next[j] <= next[i]) j--;
+  [next[i], next[j]] = [next[j], next[i]];
+  return [...next.slice(0, i + 1), ...next.slice(i + 1).reverse()];
+}
+
+function factorial(n: number): number {
+  return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+/** Position (0-based) of an ordering among all orderings of its slots */
+function permutationRank(slots: number[]): number {
+  let rank = 0;
+  slots.forEach((slot, i) => {
+    const smaller = slots.slice(i + 1).filter((s) => s < slot).length;
+    rank += smaller * factorial(slots.length - 1 - i);
+  });
+  return rank;
+}
+
+function applyRecolor(recolor: number[]) {
+  picked = null;
+  store.update({ recolor });
+}
+
+function swapRoles(a: number, b: number) {
+  if (a === b) return;
+  const roles = callbacks.getUsedRoles();
+  const recolor = store.get().recolor;
+  const slots = assignment(roles, recolor);
+  const ia = roles.indexOf(a);
+  const ib = roles.indexOf(b);
+  if (ia < 0 || ib < 0) return;
+  [slots[ia], slots[ib]] = [slots[ib], slots[ia]];
+  applyRecolor(withAssignment(roles, slots, recolor));
+}
+
+function paintSwatch(el: HTMLElement, palette: Palette, slot: number) {
+  const swatch = palette.swatches?.[slot] ?? palette.colors[slot];
+  if (swatch && isFabricSwatch(swatch)) {
+    el.style.backgroundImage = `url(${swatch.dataUrl})`;
+    el.classList.add("fabric");
+  } else {
+    el.style.backgroundColor = swatch ?? "#888888";
+  }
+}
+
+/** Redraw the panel for the current design; call after every redraw */
+export function syncRecolorPanel() {
+  if (!section) return;
+  const recolor = store.get().recolor;
+  const roles = callbacks.getUsedRoles();
+  const palette = callbacks.getPalette();
+  const slots = assignment(roles, recolor);
+
+  swatchRow.innerHTML = "";
+  roles.forEach((role, i) => {
+    const swatch = document.createElement("button");
+    swatch.className = "recolor-swatch";
+    swatch.classList.toggle("picked", picked === role);
+    swatch.title = `Colour ${slots[i] + 1} — click or drag onto another colour to swap`;
+    swatch.draggable = true;
+    paintSwatch(swatch, palette, slots[i]);
+    swatch.addEventListener("click", () => {
+      if (picked === null) {
+        picked = role;
+        syncRecolorPanel();
+      } else {
+        const first = picked;
+        picked = null;
+        if (first === role) syncRecolorPanel();
+        else swapRoles(first, role);
+      }
+    });
+    swatch.addEventListener("dragstart", (e) => e.dataTransfer?.setData("text/plain", String(role)));
+    swatch.addEventListener("dragover", (e) => e.preventDefault());
+    swatch.addEventListener("drop", (e) => {
+      e.preventDefault();
+      // Only another swatch's role; anything else dropped here is ignored
+      const data = e.dataTransfer?.getData("text/plain") ?? "";
+      const from = Number(data);
+      if (data.trim() !== "" && callbacks.getUsedRoles().includes(from)) swapRoles(from, role);
+    });
+    swatchRow.appendChild(swatch);
+  });
+
+  const total = factorial(roles.length);
+  shuffleBtn.disabled = roles.length < 2;
+  resetBtn.disabled = recolor.length === 0;
+  info.textContent = roles.length === 0
+    ? "Generate a design to recolour it."
+    : `Colouring ${permutationRank(slots) + 1} of ${total}`;
+
+  // Thumbnails of the next few orderings, drawn only while the panel is open
+  previews.innerHTML = "";
+  if (!section.open || roles.length < 2) return;
+  let next = slots;
+  for (let i = 0; i < Math.min(PREVIEW_COUNT, total - 1); i++) {
+    next = nextPermutation(next);
+    const option = withAssignment(roles, next, recolor);
+    const button = document.createElement("button");
+    button.className = "recolor-preview";
+    button.title = `Colouring ${permutationRank(next) + 1} of ${total}`;
+    button.appendChild(callbacks.renderPreview(option));
+    button.addEventListener("click", () => applyRecolor(option));
+    previews.appendChild(button);
+  }
+}
+
+export function initRecolorPanel(s: Store, cbs: RecolorCallbacks) {
+  store = s;
+  callbacks = cbs;
+
+  section = $("recolor-section") as HTMLDetailsElement;
+  swatchRow = $("recolor-swatches");
+  shuffleBtn = $("recolor-shuffle-btn") as HTMLButtonElement;
+  resetBtn = $("recolor-reset-btn") as HTMLButtonElement;
+  info = $("recolor-info");
+  previews = $("recolor-previews");
+
+  shuffleBtn.addEventListener("click", () => {
+    const roles = callbacks.getUsedRoles();
+    const recolor = store.get().recolor;
+    applyRecolor(withAssignment(roles, nextPermutation(assignment(roles, recolor)), recolor));
+  });
+  resetBtn.addEventListener("click", () => applyRecolor([]));
+  section.addEventListener("toggle", syncRecolorPanel);
+}
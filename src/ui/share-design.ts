@@ -126,7 +126,8 @@ async function handleShare() {
       const sharedPalette = await sharePalette(
         currentPalette.name || "My Palette",
         currentPalette.colors,
-        fabricDataUrls?.some(u => u) ? fabricDataUrls : undefined
+        fabricDataUrls?.some(u => u) ? fabricDataUrls : undefined,
+        { weights: currentPalette.weights }
       );
       
       // Use the returned palette ID (might be existing if duplicate)
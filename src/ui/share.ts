@@ -112,7 +112,7 @@ export function closeShareModal() {
 }
 
 export interface ShareModalCallbacks {
-  getCurrentPalette: () => { name: string; colors: string[]; swatches?: Swatch[] };
+  getCurrentPalette: () => { name: string; colors: string[]; swatches?: Swatch[]; weights?: number[] };
   onSuccess: () => void;
   onUserUpdate: (user: User) => void;
 }
@@ -186,6 +186,7 @@ async function handleShare() {
       {
         description: sharePaletteDesc.value.trim() || undefined,
         swatchMeta: hasAnyMeta ? swatchMeta : undefined,
+        weights: palette.weights,
         tags: tags.length > 0 ? tags : undefined,
       }
     );
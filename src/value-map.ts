@@ -0,0 +1,47 @@
+// Value-map designs. Quilters plan by value (lightness) more than by hue, so
+// the layout is generated in value classes, lightest first, and each class
+// is then filled from the palette colours of that lightness. The active
+// palette colours are ranked by CIELAB L* and split into runs of (nearly)
+// equal length, so every class has colours whichever palette is used and the
+// light/dark pattern survives a palette swap.
+
+import { type AppState, type Swatch, isFabricSwatch } from "./types";
+import { getAllPalettes } from "./palette";
+import { lightness } from "./constraints";
+import { fabricAverageColor } from "./shapes";
+
+/** CIELAB lightness of a swatch; a fabric is taken at its average colour
+ *  once its image has loaded, and at mid-grey until then */
+export function swatchLightness(swatch: Swatch): number {
+  if (!isFabricSwatch(swatch)) return lightness(swatch);
+  const average = fabricAverageColor(swatch.dataUrl);
+  return average ? lightness(average) : 50;
+}
+
+/** The active palette slots, lightest first */
+export function slotsByLightness(state: AppState): number[] {
+  const palettes = getAllPalettes(state.customPalettes);
+  const palette = palettes[state.paletteIndex % palettes.length];
+  const colorCount = Math.max(1, Math.min(state.paletteColorCount, palette.colors.length));
+  const values = Array.from({ length: colorCount }, (_, slot) =>
+    swatchLightness(palette.swatches?.[slot] ?? palette.colors[slot])
+  );
+  return [...values.keys()].sort((a, b) => values[b] - values[a] || a - b);
+}
+
+/** The active palette slots in each value class, lightest class first */
+export function valueClasses(state: AppState): number[][] {
+  const ranked = slotsByLightness(state);
+  const colorCount = ranked.length;
+  const levels = Math.max(1, Math.min(state.valueMap?.levels ?? 3, colorCount));
+  return Array.from({ length: levels }, (_, level) =>
+    ranked.slice(Math.floor((level * colorCount) / levels), Math.floor(((level + 1) * colorCount) / levels))
+  );
+}
+
+/** Grey standing for a value class in the preview, light to dark */
+export function valueGrey(level: number, levels: number): string {
+  const v = levels > 1 ? Math.round(232 - (level * (232 - 40)) / (levels - 1)) : 128;
+  const hex = v.toString(16).padStart(2, "0");
+  return `#${hex}${hex}${hex}`.toUpperCase();
+}
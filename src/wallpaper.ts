@@ -0,0 +1,299 @@
+// Symmetry defined by groups of cell ops: the wallpaper groups on a square
+// lattice of square cells, plus the square-core rules for the kaleidoscope,
+// pinwheel and diagonal modes at the end. Each group is given by a few generating isometries of the
+// repeat tile; the tile's cells are split into orbits under the whole group,
+// and the first cell of each orbit (in reading order) is generated freely
+// while the rest copy it.
+//
+// Isometries act on doubled coordinates (2·row + 1, 2·col + 1), so cell
+// centres are odd and cell edges even. Coordinates wrap at twice the tile
+// size, which makes a translation by half a tile a shift of tileH (or tileW).
+
+import { SymmetryMode } from "./types";
+
+// The eight ways a cell can be turned or flipped. Names match the block
+// transforms in layout.ts.
+export type CellOp =
+  | "identity"
+  | "mirrorH"
+  | "mirrorV"
+  | "rotate180"
+  | "rotateCW"
+  | "rotateCCW"
+  | "mirrorDiagTLBR"
+  | "mirrorDiagTRBL";
+
+// (R, C) → (a·R + b·C, c·R + d·C)
+const LINEAR: Record<CellOp, [number, number, number, number]> = {
+  identity: [1, 0, 0, 1],
+  mirrorH: [1, 0, 0, -1],
+  mirrorV: [-1, 0, 0, 1],
+  rotate180: [-1, 0, 0, -1],
+  rotateCW: [0, 1, -1, 0],
+  rotateCCW: [0, -1, 1, 0],
+  mirrorDiagTLBR: [0, 1, 1, 0],
+  mirrorDiagTRBL: [0, -1, -1, 0],
+};
+
+interface Isometry {
+  op: CellOp;
+  tR: number;
+  tC: number;
+}
+
+export interface SymmetryCell {
+  // Cell this one copies, and how to turn the copy; null for a free cell
+  source: { row: number; col: number; op: CellOp } | null;
+  // Non-identity ops that map this (free) cell onto itself: it sits on a
+  // mirror line or rotation centre, so its block must look the same under them
+  stabilizer: CellOp[];
+}
+
+export const WALLPAPER_GROUPS: readonly SymmetryMode[] = [
+  SymmetryMode.P2,
+  SymmetryMode.PM,
+  SymmetryMode.PG,
+  SymmetryMode.CM,
+  SymmetryMode.PMM,
+  SymmetryMode.PMG,
+  SymmetryMode.PGG,
+  SymmetryMode.CMM,
+  SymmetryMode.P4,
+  SymmetryMode.P4M,
+  SymmetryMode.P4G,
+];
+
+export function isWallpaperGroup(mode: SymmetryMode): boolean {
+  return WALLPAPER_GROUPS.includes(mode);
+}
+
+/** Groups whose glides or centring need a translation by half a tile, which
+ *  only lands on whole cells when the tile side is even */
+export function needsEvenTile(mode: SymmetryMode): boolean {
+  return (
+    mode === SymmetryMode.PG ||
+    mode === SymmetryMode.CM ||
+    mode === SymmetryMode.PMG ||
+    mode === SymmetryMode.PGG ||
+    mode === SymmetryMode.CMM ||
+    mode === SymmetryMode.P4G
+  );
+}
+
+// Generators with translations in doubled units (h = tileH, w = tileW is half a period)
+function generators(mode: SymmetryMode, h: number, w: number): Isometry[] {
+  const op = (o: CellOp, tR = 0, tC = 0): Isometry => ({ op: o, tR, tC });
+  switch (mode) {
+    case SymmetryMode.P2:
+      return [op("rotate180")];
+    case SymmetryMode.PM:
+      return [op("mirrorH")];
+    case SymmetryMode.PG:
+      return [op("mirrorH", h)];
+    case SymmetryMode.CM:
+      return [op("mirrorH"), op("identity", h, w)];
+    case SymmetryMode.PMM:
+      return [op("mirrorH"), op("mirrorV")];
+    case SymmetryMode.PMG:
+      return [op("mirrorV"), op("mirrorH", h)];
+    case SymmetryMode.PGG:
+      return [op("mirrorH", h, w), op("mirrorV", h, w)];
+    case SymmetryMode.CMM:
+      return [op("mirrorH"), op("mirrorV"), op("identity", h, w)];
+    case SymmetryMode.P4:
+      return [op("rotateCW")];
+    case SymmetryMode.P4M:
+      return [op("rotateCW"), op("mirrorH")];
+    case SymmetryMode.P4G:
+      return [op("rotateCW"), op("mirrorH", h, w)];
+    default:
+      return [];
+  }
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+const OP_BY_MATRIX = new Map(
+  (Object.entries(LINEAR) as [CellOp, number[]][]).map(([op, m]) => [m.join(","), op])
+);
+
+/** g after f */
+function compose(g: Isometry, f: Isometry, periodR: number, periodC: number): Isometry {
+  const [a, b, c, d] = LINEAR[g.op];
+  const [e, f2, g2, h] = LINEAR[f.op];
+  const product = [a * e + b * g2, a * f2 + b * h, c * e + d * g2, c * f2 + d * h];
+  return {
+    op: OP_BY_MATRIX.get(product.join(","))!,
+    tR: mod(a * f.tR + b * f.tC + g.tR, periodR),
+    tC: mod(c * f.tR + d * f.tC + g.tC, periodC),
+  };
+}
+
+function apply(g: Isometry, r: number, c: number, periodR: number, periodC: number): [number, number] {
+  const [a, b, cc, d] = LINEAR[g.op];
+  return [mod(a * r + b * c + g.tR, periodR), mod(cc * r + d * c + g.tC, periodC)];
+}
+
+const cache = new Map<string, SymmetryCell[][]>();
+
+/** Orbit structure of a tile under a wallpaper group, or null for the other
+ *  symmetry modes. On a non-square tile quarter turns become half turns; with
+ *  an odd tile side, glides and centring that would land between cells are
+ *  dropped. Either way the largest part of the group that fits is kept. */
+export function wallpaperMap(mode: SymmetryMode, tileW: number, tileH: number): SymmetryCell[][] | null {
+  if (!isWallpaperGroup(mode) || tileW <= 0 || tileH <= 0) return null;
+  const key = `${mode}:${tileW}x${tileH}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const periodR = 2 * tileH;
+  const periodC = 2 * tileW;
+  const gens = generators(mode, tileH, tileW).map((g) =>
+    tileW !== tileH && g.op === "rotateCW" ? { ...g, op: "rotate180" as CellOp } : g
+  );
+
+  // Close the generators into the whole group (modulo the tile's translations)
+  const group = new Map<string, Isometry>();
+  const idKey = (g: Isometry) => `${g.op}:${g.tR}:${g.tC}`;
+  const queue: Isometry[] = [{ op: "identity", tR: 0, tC: 0 }];
+  group.set(idKey(queue[0]), queue[0]);
+  while (queue.length > 0) {
+    const f = queue.shift()!;
+    for (const g of gens) {
+      const next = compose(g, f, periodR, periodC);
+      if (!group.has(idKey(next))) {
+        group.set(idKey(next), next);
+        queue.push(next);
+      }
+    }
+  }
+
+  // Keep the elements that move cell centres onto cell centres
+  const elements = [...group.values()].filter((g) => g.tR % 2 === 0 && g.tC % 2 === 0);
+
+  const cells: (SymmetryCell | null)[][] = Array.from({ length: tileH }, () =>
+    Array.from({ length: tileW }, () => null)
+  );
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      if (cells[row][col]) continue;
+      const free: SymmetryCell = { source: null, stabilizer: [] };
+      cells[row][col] = free;
+      for (const g of elements) {
+        const [r, c] = apply(g, 2 * row + 1, 2 * col + 1, periodR, periodC);
+        const imageRow = (r - 1) / 2;
+        const imageCol = (c - 1) / 2;
+        if (imageRow === row && imageCol === col) {
+          if (g.op !== "identity" && !free.stabilizer.includes(g.op)) free.stabilizer.push(g.op);
+        } else if (!cells[imageRow][imageCol]) {
+          cells[imageRow][imageCol] = { source: { row, col, op: g.op }, stabilizer: [] };
+        }
+      }
+    }
+  }
+
+  const result = cells as SymmetryCell[][];
+  cache.set(key, result);
+  return result;
+}
+
+// --- Square core inside a mirrored frame ---
+//
+// Quarter turns and diagonal mirrors only fit a square, so on a rectangular
+// tile they act on the largest centred square (the core). The strips left
+// over (the frame) get whichever of the tile's own mirrors and half turn
+// belong to the mode and keep the core in place.
+
+// Ops about the core's centre
+const CORE_OPS: Partial<Record<SymmetryMode, CellOp[]>> = {
+  [SymmetryMode.FourWay]: Object.keys(LINEAR) as CellOp[],
+  [SymmetryMode.Pinwheel]: ["identity", "rotateCW", "rotate180", "rotateCCW"],
+  [SymmetryMode.DiagonalTLBR]: ["identity", "mirrorDiagTLBR"],
+  [SymmetryMode.DiagonalTRBL]: ["identity", "mirrorDiagTRBL"],
+};
+
+// Candidate ops about the tile's centre; diagonal modes mirror along the long side
+function frameOps(mode: SymmetryMode, tileW: number, tileH: number): CellOp[] {
+  switch (mode) {
+    case SymmetryMode.FourWay:
+      return ["identity", "mirrorH", "mirrorV", "rotate180"];
+    case SymmetryMode.Pinwheel:
+      return ["identity", "rotate180"];
+    default:
+      return ["identity", tileW > tileH ? "mirrorH" : "mirrorV"];
+  }
+}
+
+/** Ops turning about a centre given in doubled coordinates */
+function aboutCentre(ops: CellOp[], centreR: number, centreC: number): Isometry[] {
+  return ops.map((op) => {
+    const [a, b, c, d] = LINEAR[op];
+    return { op, tR: centreR - (a * centreR + b * centreC), tC: centreC - (c * centreR + d * centreC) };
+  });
+}
+
+function applyPoint(g: Isometry, r: number, c: number): [number, number] {
+  const [a, b, cc, d] = LINEAR[g.op];
+  return [a * r + b * c + g.tR, cc * r + d * c + g.tC];
+}
+
+/** Orbit structure for the kaleidoscope (FourWay), pinwheel and diagonal
+ *  modes. On a square tile the core is the whole tile. */
+function coreFrameMap(mode: SymmetryMode, tileW: number, tileH: number): SymmetryCell[][] | null {
+  const coreOps = CORE_OPS[mode];
+  if (!coreOps || tileW <= 0 || tileH <= 0) return null;
+  const key = `${mode}:${tileW}x${tileH}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const size = Math.min(tileW, tileH);
+  const top = Math.floor((tileH - size) / 2);
+  const left = Math.floor((tileW - size) / 2);
+  const inCore = (row: number, col: number) =>
+    row >= top && row < top + size && col >= left && col < left + size;
+
+  const coreGroup = aboutCentre(coreOps, 2 * top + size, 2 * left + size);
+  // An uncentred core (tile sides of different parity) rules out the ops that would move it
+  const frameGroup = aboutCentre(frameOps(mode, tileW, tileH), tileH, tileW).filter((g) => {
+    for (let row = top; row < top + size; row++) {
+      for (let col = left; col < left + size; col++) {
+        const [r, c] = applyPoint(g, 2 * row + 1, 2 * col + 1);
+        if (!inCore((r - 1) / 2, (c - 1) / 2)) return false;
+      }
+    }
+    return true;
+  });
+
+  const cells: (SymmetryCell | null)[][] = Array.from({ length: tileH }, () =>
+    Array.from({ length: tileW }, () => null)
+  );
+  for (let row = 0; row < tileH; row++) {
+    for (let col = 0; col < tileW; col++) {
+      if (cells[row][col]) continue;
+      const free: SymmetryCell = { source: null, stabilizer: [] };
+      cells[row][col] = free;
+      for (const g of inCore(row, col) ? coreGroup : frameGroup) {
+        const [r, c] = applyPoint(g, 2 * row + 1, 2 * col + 1);
+        const imageRow = (r - 1) / 2;
+        const imageCol = (c - 1) / 2;
+        if (imageRow === row && imageCol === col) {
+          if (g.op !== "identity") free.stabilizer.push(g.op);
+        } else if (!cells[imageRow][imageCol]) {
+          cells[imageRow][imageCol] = { source: { row, col, op: g.op }, stabilizer: [] };
+        }
+      }
+    }
+  }
+
+  const result = cells as SymmetryCell[][];
+  cache.set(key, result);
+  return result;
+}
+
+/** Orbit structure for modes defined by a group of cell ops (wallpaper
+ *  groups, and the square-core rules), or null for the hand-written modes */
+export function symmetryMap(mode: SymmetryMode, tileW: number, tileH: number): SymmetryCell[][] | null {
+  return wallpaperMap(mode, tileW, tileH) ?? coreFrameMap(mode, tileW, tileH);
+}
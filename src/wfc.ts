@@ -0,0 +1,216 @@
+// Wave Function Collapse over a set of cell variants. Every cell starts able
+// to hold any variant. The cell with the fewest options left is collapsed to
+// one of them (picked by weight), and the choice is propagated: a neighbour
+// keeps only the variants whose facing socket is allowed to meet one of the
+// sockets still possible on this side of the seam. A cell left with no
+// options is a contradiction, and the run starts again.
+//
+// Symmetric copies are views of the cell they copy: the two share one set of
+// options, seen through the transform that turns or mirrors the variant.
+
+import type { SeededRandom } from "./random";
+
+export interface WfcTileSet {
+  weights: number[];    // per variant
+  sockets: number[][];  // per variant: socket on the top, right, bottom and left sides
+  socketCount: number;
+  // Socket pairs allowed to meet: [right side, left side of the next cell]
+  // across upright seams (h), [bottom side, top side of the cell below] across level ones (v)
+  fits: { h: [number, number][]; v: [number, number][] };
+}
+
+export interface WfcCell {
+  root: number;               // cell whose options this one shows (itself for a free cell)
+  view: Int32Array | null;    // variant shown here for each root variant (-1 = none); null = the same
+  allow?: (variant: number) => boolean; // further limit on the variant shown here
+}
+
+// Neighbour offsets with the sides that meet
+const DIRECTIONS = [
+  { dRow: 0, dCol: 1, side: 1, facing: 3, toward: "right" },
+  { dRow: 0, dCol: -1, side: 3, facing: 1, toward: "left" },
+  { dRow: 1, dCol: 0, side: 2, facing: 0, toward: "below" },
+  { dRow: -1, dCol: 0, side: 0, facing: 2, toward: "above" },
+] as const;
+
+/** Variant for every cell (row by row), or null if each attempt ran into a contradiction */
+export function solveWfc(
+  tileSet: WfcTileSet,
+  width: number,
+  height: number,
+  cells: WfcCell[],
+  wrap: boolean,
+  rng: SeededRandom,
+  attempts: number
+): number[] | null {
+  const compatible = fitLists(tileSet);
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const result = collapse(tileSet, compatible, width, height, cells, wrap, rng);
+    if (result) return result;
+  }
+  return null;
+}
+
+// For each socket on one side of a seam, the sockets it may meet on the
+// other, looked up from either side
+type FitLists = Record<"right" | "left" | "below" | "above", number[][]>;
+
+function fitLists(tileSet: WfcTileSet): FitLists {
+  const n = tileSet.socketCount;
+  const lists: FitLists = { right: [], left: [], below: [], above: [] };
+  for (let a = 0; a < n; a++) {
+    lists.right.push([]);
+    lists.left.push([]);
+    lists.below.push([]);
+    lists.above.push([]);
+  }
+  for (const [a, b] of tileSet.fits.h) {
+    lists.right[a].push(b);
+    lists.left[b].push(a);
+  }
+  for (const [a, b] of tileSet.fits.v) {
+    lists.below[a].push(b);
+    lists.above[b].push(a);
+  }
+  return lists;
+}
+
+function collapse(
+  tileSet: WfcTileSet,
+  compatible: FitLists,
+  width: number,
+  height: number,
+  cells: WfcCell[],
+  wrap: boolean,
+  rng: SeededRandom
+): number[] | null {
+  const variantCount = tileSet.weights.length;
+  const socketCount = tileSet.socketCount;
+  const shown = (cell: number, v: number) => {
+    const view = cells[cell].view;
+    return view ? view[v] : v;
+  };
+
+  // Options are kept per root; every cell showing a root is revisited when they shrink
+  const domains = new Map<number, Uint8Array>();
+  const counts = new Map<number, number>();
+  const viewers = new Map<number, number[]>();
+  cells.forEach((cell, i) => {
+    if (!domains.has(cell.root)) {
+      domains.set(cell.root, new Uint8Array(variantCount).fill(1));
+      counts.set(cell.root, variantCount);
+      viewers.set(cell.root, []);
+    }
+    viewers.get(cell.root)!.push(i);
+  });
+
+  const remove = (root: number, v: number) => {
+    domains.get(root)![v] = 0;
+    counts.set(root, counts.get(root)! - 1);
+  };
+
+  for (let i = 0; i < cells.length; i++) {
+    const { root, allow } = cells[i];
+    const domain = domains.get(root)!;
+    for (let v = 0; v < variantCount; v++) {
+      if (!domain[v]) continue;
+      const variant = shown(i, v);
+      if (variant < 0 || (allow && !allow(variant))) remove(root, v);
+    }
+    if (counts.get(root) === 0) return null;
+  }
+
+  const queued = new Uint8Array(cells.length);
+  const queue: number[] = [];
+  const enqueue = (root: number) => {
+    for (const cell of viewers.get(root)!) {
+      if (queued[cell]) continue;
+      queued[cell] = 1;
+      queue.push(cell);
+    }
+  };
+
+  // Trim every neighbour of the queued cells; false on a contradiction
+  const propagate = (): boolean => {
+    const present = new Uint8Array(socketCount);
+    const allowed = new Uint8Array(socketCount);
+    while (queue.length > 0) {
+      const from = queue.pop()!;
+      queued[from] = 0;
+      const row = Math.floor(from / width);
+      const col = from % width;
+      const fromDomain = domains.get(cells[from].root)!;
+
+      for (const dir of DIRECTIONS) {
+        let r = row + dir.dRow;
+        let c = col + dir.dCol;
+        if (wrap) {
+          r = (r + height) % height;
+          c = (c + width) % width;
+        } else if (r < 0 || r >= height || c < 0 || c >= width) {
+          continue;
+        }
+        const to = r * width + c;
+
+        present.fill(0);
+        allowed.fill(0);
+        for (let v = 0; v < variantCount; v++) {
+          if (!fromDomain[v]) continue;
+          const socket = tileSet.sockets[shown(from, v)][dir.side];
+          if (present[socket]) continue;
+          present[socket] = 1;
+          for (const t of compatible[dir.toward][socket]) allowed[t] = 1;
+        }
+
+        const toRoot = cells[to].root;
+        const toDomain = domains.get(toRoot)!;
+        let changed = false;
+        for (let v = 0; v < variantCount; v++) {
+          if (!toDomain[v] || allowed[tileSet.sockets[shown(to, v)][dir.facing]]) continue;
+          remove(toRoot, v);
+          changed = true;
+        }
+        if (counts.get(toRoot) === 0) return false;
+        if (changed) enqueue(toRoot);
+      }
+    }
+    return true;
+  };
+
+  for (const root of domains.keys()) enqueue(root);
+  if (!propagate()) return null;
+
+  for (;;) {
+    // Collapse the most constrained open root, breaking ties at random
+    let next = -1;
+    let fewest = Infinity;
+    for (const [root, count] of counts) {
+      if (count <= 1) continue;
+      const score = count + rng.next();
+      if (score < fewest) {
+        fewest = score;
+        next = root;
+      }
+    }
+    if (next < 0) break;
+
+    const domain = domains.get(next)!;
+    let total = 0;
+    for (let v = 0; v < variantCount; v++) if (domain[v]) total += tileSet.weights[v];
+    let pick = rng.next() * total;
+    let chosen = -1;
+    for (let v = 0; v < variantCount; v++) {
+      if (!domain[v]) continue;
+      chosen = v;
+      pick -= tileSet.weights[v];
+      if (pick < 0) break;
+    }
+    for (let v = 0; v < variantCount; v++) {
+      if (domain[v] && v !== chosen) remove(next, v);
+    }
+    enqueue(next);
+    if (!propagate()) return null;
+  }
+
+  return cells.map((cell, i) => shown(i, domains.get(cell.root)!.indexOf(1)));
+}